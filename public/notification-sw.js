@@ -0,0 +1,27 @@
+/* Service worker for weasel.io system notifications.
+ * Notification action buttons only work on notifications shown through a
+ * service worker; clicks are relayed back to the open timer tab. */
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) =>
+  event.waitUntil(self.clients.claim())
+);
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        if (event.action) {
+          clients.forEach((client) =>
+            client.postMessage({
+              type: "weasel-notification-action",
+              action: event.action,
+            })
+          );
+          return undefined;
+        }
+        return clients.length ? clients[0].focus() : undefined;
+      })
+  );
+});
@@ -1,15 +1,52 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
 import "./app.css";
 
 /** ------------ Types ------------ */
-type Task = { id: string; name: string; targetSec: number };
+/** Which rounds a task takes part in; tasks without one run every round */
+type RoundRule =
+  | { kind: "first" }
+  | { kind: "last" }
+  | { kind: "every"; n: number } // rounds n, 2n, 3n, …
+  | { kind: "list"; rounds: number[] }; // 1-based round numbers
+/** How a task is measured; tasks without one count down from `targetSec` */
+type TaskKind = "countdown" | "countup" | "reps";
+type Task = {
+  id: string;
+  name: string;
+  targetSec: number;
+  kind?: TaskKind;
+  targetReps?: number; // rep tasks only
+  rounds?: RoundRule;
+  notes?: string;
+  checklist?: ChecklistItem[];
+  color?: string; // "#rrggbb"; falls back to the category's color
+  category?: string;
+  endSound?: string; // overrides the time-up sound for this task
+  cues?: WarningCues; // overrides the global warning cues
+  overtime?: OvertimePolicy; // overrides the session's overtime policy
+  block?: string; // id of a saved session this entry plays as a block
+  fromBlock?: BlockRef; // set on the steps a block expanded into
+};
+/** The block entry an expanded step came from, and the session it plays */
+type BlockRef = { id: string; sessionId: string; name: string };
+/** A sub-item shown under a task while it runs, ticked off per round */
+type ChecklistItem = { id: string; text: string };
 type TaskStatus =
   | "incomplete"
   | "complete_at"
   | "complete_under"
   | "complete_over"
   | "skipped";
-type TaskResult = { status: TaskStatus; actualSec: number | null };
+type TaskResult = {
+  status: TaskStatus;
+  actualSec: number | null;
+  reps?: number; // achieved count, for rep tasks
+  checked?: string[]; // ids of the checklist items ticked this round
+  overtime?: OvertimeMode; // policy in force when it ran over, unless "count"
+  forced?: boolean; // moved on by that policy rather than by hand
+  targetSec?: number; // target it ran against, when rollover moved it
+};
+type DraftTask = Omit<Task, "id">;
 type EditingValues = { id: string; name: string; timeStr: string };
 type SavedSequence = {
   id: string;
@@ -17,8 +54,66 @@ type SavedSequence = {
   tasks: Task[];
   chain: string[];
   roundsCount: number;
+  breaks?: BreakSettings;
+  overtime?: OvertimePolicy;
+  savedAt: number;
+};
+/** Rest between rounds; every `longEvery`th break is a long one (0 = never) */
+type BreakSettings = {
+  enabled: boolean;
+  shortSec: number;
+  longSec: number;
+  longEvery: number;
+};
+/** What happens once a task runs past its target */
+type OvertimeMode = "count" | "complete" | "skip" | "escalate";
+/** `graceSec` is the wait before completing, skipping or re-ringing */
+type OvertimePolicy = { mode: OvertimeMode; graceSec: number };
+/** Where time left over on a finished task goes (and, for debt, overrun) */
+type RolloverMode = "off" | "next" | "rounds" | "debt" | "bank";
+type RunState = "idle" | "running" | "paused";
+/** Snapshot of the live session, written continuously so a reload can resume */
+type LiveSession = {
+  tasks: Task[];
+  chain: string[];
+  roundsCount: number;
+  rounds: TaskResult[][];
+  currentRoundIndex: number;
+  currentTaskIndex: number;
+  runState: RunState;
+  taskStartMs: number | null;
+  pausedOffsetMs: number;
+  rolloverOffsetSec: number; // negative while paying off overtime debt
+  heldCarrySec: number; // carry waiting out a break for the next round
+  bankSec: number;
+  repCount: number;
+  breaks: BreakSettings;
+  overtime: OvertimePolicy;
+  onBreak: boolean; // resting before the task at the current position
+  isSessionComplete: boolean;
+  sequenceName: string;
+  sessionStartedAt: number | null;
   savedAt: number;
 };
+/** A state to go back to; `merge` folds runs of the same edit into one step */
+type UndoEntry = { label: string; session: LiveSession; merge?: string };
+/** A finished or abandoned run, kept in the history log */
+type SessionRecord = {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt: number;
+  completed: boolean;
+  tasks: Task[]; // in chain order, as they were when the run ended
+  rounds: TaskResult[][];
+  settings: {
+    rollover: boolean;
+    rolloverMode?: RolloverMode;
+    autocontinue: boolean;
+    breaks?: BreakSettings;
+    overtime?: OvertimePolicy;
+  };
+};
 
 /** ------------ Initial Data ------------ */
 const INITIAL_TASKS: Task[] = [
@@ -29,6 +124,10 @@ const INITIAL_TASKS: Task[] = [
 const INITIAL_CHAIN: string[] = ["t1", "t2", "t3"];
 
 /** ------------ Helpers ------------ */
+/** Most rounds a session can have; every way of building one stops here */
+const MAX_ROUNDS = 25;
+/** Most tasks a session can run, counting each step of its blocks */
+const MAX_TASKS = 25;
 const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
 const fmt = (sec: number) => {
   const s = Math.max(0, Math.floor(sec));
@@ -39,7 +138,21 @@ const fmt = (sec: number) => {
     ? `${String(h)}:${String(m).padStart(2, "0")}:${String(r).padStart(2, "0")}`
     : `${String(m)}:${String(r).padStart(2, "0")}`;
 };
+/** Unit words a duration may use, as in "25m", "1h 30m" or "90 sec" */
+const TIME_UNITS = "h|hrs?|hours?|m|mins?|minutes?|s|secs?|seconds?";
+const UNIT_TIME_RE = new RegExp(`^(\\d+(\\.\\d+)?\\s*(${TIME_UNITS})\\s*)+$`);
+/** Seconds in "5:00", "1:30:00" or "90", or in "25m", "1h 30m", "90 sec" */
 const parseTime = (timeStr: string): number => {
+  const text = timeStr.trim().toLowerCase();
+  if (UNIT_TIME_RE.test(text)) {
+    const units: Record<string, number> = { h: 3600, m: 60, s: 1 };
+    let seconds = 0;
+    text.replace(/(\d+(?:\.\d+)?)\s*([hms])[a-z]*/g, (_, n, unit) => {
+      seconds += parseFloat(n) * units[unit];
+      return "";
+    });
+    return Math.round(seconds);
+  }
   const parts = timeStr.split(":").map((part) => parseInt(part, 10));
   let seconds = 0;
   if (parts.length === 1) seconds = parts[0] || 0;
@@ -58,1276 +171,5804 @@ const generateId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
 
-/** Pie chart component for progress visualization */
-const PieChart = ({
-  segments,
-  currentIndex,
-  size = 60,
-  getSegmentColor,
-  segmentValues,
+/** ------------ Task kinds ------------ */
+const TASK_KIND_LABELS: Record<TaskKind, string> = {
+  countdown: "Countdown",
+  countup: "Count up",
+  reps: "Reps",
+};
+const DEFAULT_TARGET_REPS = 10;
+
+/**
+ * Count-up and rep tasks have no time target: they run until marked done
+ * (or, for reps, until the count is reached)
+ */
+const isOpenEnded = (task?: Pick<Task, "kind">) =>
+  task?.kind === "countup" || task?.kind === "reps";
+
+const isRepTask = (task?: Pick<Task, "kind">) => task?.kind === "reps";
+
+/** Seconds a task adds to planned round and session time */
+const plannedSec = (task?: Task) =>
+  !task || isOpenEnded(task) ? 0 : task.targetSec;
+
+/** A task's target as shown in lists */
+const fmtTarget = (task: Pick<Task, "kind" | "targetSec" | "targetReps">) =>
+  isRepTask(task)
+    ? `× ${task.targetReps ?? DEFAULT_TARGET_REPS}`
+    : isOpenEnded(task)
+    ? "↑ open"
+    : fmt(task.targetSec);
+
+/** Store only non-default kinds, so plain countdowns stay unchanged */
+const withKind = <T extends { kind?: TaskKind; targetReps?: number }>(
+  task: T,
+  kind?: TaskKind
+) => {
+  const { kind: _previous, ...rest } = task;
+  if (!kind || kind === "countdown") return rest as T;
+  return {
+    ...rest,
+    kind,
+    ...(kind === "reps"
+      ? { targetReps: task.targetReps ?? DEFAULT_TARGET_REPS }
+      : {}),
+  } as T;
+};
+
+/** ------------ Task colors and categories ------------ */
+const TASK_COLORS = [
+  "#4c6ef5",
+  "#15aabf",
+  "#12b886",
+  "#82c91e",
+  "#fab005",
+  "#fd7e14",
+  "#e64980",
+  "#7950f2",
+];
+/** Suggested categories and the colors their tasks get by default */
+const CATEGORY_COLORS: Record<string, string> = {
+  work: "#4c6ef5",
+  rest: "#12b886",
+  admin: "#7950f2",
+};
+const UNCATEGORIZED = "Uncategorized";
+
+/** Color for a category: a suggested one's own, else a stable palette pick */
+const categoryColor = (category: string) => {
+  const key = category.toLowerCase();
+  if (CATEGORY_COLORS.hasOwnProperty(key)) return CATEGORY_COLORS[key];
+  let hash = 0;
+  for (let i = 0; i < key.length; i++)
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  return TASK_COLORS[Math.abs(hash) % TASK_COLORS.length];
+};
+
+/** A task's fill color, or undefined when it only shows performance colors */
+const taskColor = (task?: Pick<Task, "color" | "category">) =>
+  task?.color ?? (task?.category ? categoryColor(task.category) : undefined);
+
+const isHexColor = (value: any): value is string =>
+  typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+/** Picker for how a task is measured */
+const TaskKindSelect = ({
+  kind,
+  onChange,
+  className = "",
 }: {
-  segments: number;
-  currentIndex: number;
-  size?: number;
-  getSegmentColor: (index: number) => string;
-  segmentValues?: number[]; // Optional array of values for proportional sizing
-}) => {
-  const center = size / 2;
-  const radius = size / 2 - 2;
+  kind?: TaskKind;
+  onChange: (kind: TaskKind) => void;
+  className?: string;
+}) => (
+  <select
+    className={`task-kind-select ${className}`}
+    value={kind ?? "countdown"}
+    title="How this task is timed"
+    onChange={(e) => onChange(e.target.value as TaskKind)}
+  >
+    {(Object.keys(TASK_KIND_LABELS) as TaskKind[]).map((k) => (
+      <option key={k} value={k}>
+        {TASK_KIND_LABELS[k]}
+      </option>
+    ))}
+  </select>
+);
+
+/** ------------ Per-round membership ------------ */
+const taskInRound = (task: Task, rIdx: number, roundsCount: number) => {
+  const rule = task.rounds;
+  if (!rule) return true;
+  switch (rule.kind) {
+    case "first":
+      return rIdx === 0;
+    case "last":
+      return rIdx === roundsCount - 1;
+    case "every":
+      return (rIdx + 1) % Math.max(1, rule.n) === 0;
+    case "list":
+      return rule.rounds.indexOf(rIdx + 1) !== -1;
+  }
+};
 
-  // Calculate angles based on values or equal distribution
-  const angles = (() => {
-    if (segmentValues && segmentValues.length === segments) {
-      const total = segmentValues.reduce((sum, val) => sum + val, 0);
-      let currentAngle = 0;
-      return segmentValues.map((val) => {
-        const startAngle = currentAngle;
-        const angleSize = (val / total) * 2 * Math.PI;
-        currentAngle += angleSize;
-        return { startAngle, endAngle: currentAngle };
+/** Chain positions that run in a given round */
+const roundPositions = (
+  tasks: Task[],
+  chain: string[],
+  rIdx: number,
+  roundsCount: number
+) => {
+  const positions: number[] = [];
+  chain.forEach((id, i) => {
+    const task = tasks.find((t) => t.id === id);
+    if (task && taskInRound(task, rIdx, roundsCount)) positions.push(i);
+  });
+  return positions;
+};
+
+/**
+ * The next (dir 1) or previous (dir -1) chain position that runs, starting
+ * after `taskIdx` in round `rIdx` and crossing into other rounds as needed.
+ */
+const stepPosition = (
+  tasks: Task[],
+  chain: string[],
+  roundsCount: number,
+  rIdx: number,
+  taskIdx: number,
+  dir: 1 | -1
+): { round: number; task: number } | null => {
+  for (let r = rIdx; r >= 0 && r < roundsCount; r += dir) {
+    const positions = roundPositions(tasks, chain, r, roundsCount);
+    const ordered = dir === 1 ? positions : positions.slice().reverse();
+    const found = ordered.find((i) =>
+      r !== rIdx ? true : dir === 1 ? i > taskIdx : i < taskIdx
+    );
+    if (found !== undefined) return { round: r, task: found };
+  }
+  return null;
+};
+
+/**
+ * Where a run starts. When round rules leave every round empty this falls
+ * back to the first entry for display; such a plan can't be started
+ */
+const firstPosition = (tasks: Task[], chain: string[], roundsCount: number) =>
+  stepPosition(tasks, chain, roundsCount, 0, -1, 1) ?? { round: 0, task: 0 };
+
+/** Whether any task runs in any round once round rules are applied */
+const hasScheduledTask = (
+  tasks: Task[],
+  chain: string[],
+  roundsCount: number
+) => stepPosition(tasks, chain, roundsCount, 0, -1, 1) !== null;
+
+/** Planned time for every round, honouring per-round membership */
+const roundTargets = (tasks: Task[], chain: string[], roundsCount: number) =>
+  Array.from({ length: roundsCount }, (_, r) =>
+    roundPositions(tasks, chain, r, roundsCount).reduce(
+      (sum, i) => sum + plannedSec(tasks.find((t) => t.id === chain[i])),
+      0
+    )
+  );
+
+const sequenceTotalSec = (seq: SessionPlan) =>
+  roundTargets(seq.tasks, seq.chain, seq.roundsCount).reduce(
+    (sum, sec) => sum + sec,
+    0
+  );
+
+/** ------------ Nested sessions (blocks) ------------ */
+/**
+ * Replace block entries with the steps of the sessions they reference. A
+ * block plays its session's chain once per round of that session, honouring
+ * its round rules, and its own round rule carries over to every step. Step
+ * ids derive from the block entry, so reloading a parent lines up with the
+ * steps it expanded to last time. Blocks whose session is gone, or that
+ * would play themselves, are dropped and listed in `missing`.
+ */
+const expandBlocks = <T extends SessionPlan>(
+  seq: T,
+  library: SavedSequence[],
+  trail: string[] = []
+): T & { missing: string[] } => {
+  const tasks: Task[] = [];
+  const chain: string[] = [];
+  const missing: string[] = [];
+  seq.chain.forEach((id) => {
+    const entry = seq.tasks.find((t) => t.id === id);
+    if (!entry) return;
+    if (!entry.block) {
+      tasks.push(entry);
+      chain.push(id);
+      return;
+    }
+    const source = library.find((s) => s.id === entry.block);
+    if (!source || trail.indexOf(source.id) !== -1) {
+      missing.push(entry.name);
+      return;
+    }
+    const inner = expandBlocks(source, library, [...trail, source.id]);
+    missing.push(...inner.missing);
+    const ref: BlockRef = {
+      id: entry.id,
+      sessionId: source.id,
+      name: source.name,
+    };
+    for (let r = 0; r < inner.roundsCount; r++) {
+      inner.chain.forEach((innerId) => {
+        const step = inner.tasks.find((t) => t.id === innerId);
+        if (!step || !taskInRound(step, r, inner.roundsCount)) return;
+        const { rounds: _rule, ...rest } = step;
+        const stepId = `${entry.id}/${r + 1}/${innerId}`;
+        tasks.push({
+          ...rest,
+          id: stepId,
+          ...(entry.rounds ? { rounds: entry.rounds } : {}),
+          fromBlock: ref,
+        });
+        chain.push(stepId);
       });
-    } else {
-      // Equal distribution
-      const anglePerSegment = (2 * Math.PI) / segments;
-      return Array.from({ length: segments }).map((_, i) => ({
-        startAngle: i * anglePerSegment,
-        endAngle: (i + 1) * anglePerSegment,
-      }));
     }
-  })();
+  });
+  return { ...seq, tasks, chain, missing };
+};
 
-  const createArc = (startAngle: number, endAngle: number) => {
-    // Handle full circle case - draw it slightly less than full to make it visible
-    const angleDiff = endAngle - startAngle;
-    if (angleDiff >= 2 * Math.PI - 0.001) {
-      // Draw a circle instead
-      return `M ${center} ${
-        center - radius
-      } A ${radius} ${radius} 0 1 1 ${center} ${
-        center + radius
-      } A ${radius} ${radius} 0 1 1 ${center} ${center - radius} Z`;
+/**
+ * Fold expanded steps back into one block entry each, placed where the
+ * block's first step is. Edits made to the steps themselves are dropped:
+ * they belong to the referenced session.
+ */
+const collapseBlocks = (tasks: Task[], chain: string[]) => {
+  const folded: Task[] = [];
+  const foldedChain: string[] = [];
+  const seen = new Set<string>();
+  chain.forEach((id) => {
+    const task = tasks.find((t) => t.id === id);
+    if (!task) return;
+    const ref = task.fromBlock;
+    if (!ref) {
+      folded.push(task);
+      foldedChain.push(id);
+      return;
     }
+    if (seen.has(ref.id)) return;
+    seen.add(ref.id);
+    folded.push({
+      id: ref.id,
+      name: ref.name,
+      targetSec: 0,
+      block: ref.sessionId,
+      ...(task.rounds ? { rounds: task.rounds } : {}),
+    });
+    foldedChain.push(ref.id);
+  });
+  return { tasks: folded, chain: foldedChain };
+};
 
-    const x1 = center + radius * Math.cos(startAngle - Math.PI / 2);
-    const y1 = center + radius * Math.sin(startAngle - Math.PI / 2);
-    const x2 = center + radius * Math.cos(endAngle - Math.PI / 2);
-    const y2 = center + radius * Math.sin(endAngle - Math.PI / 2);
-    const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+/** Whether `seq` plays the session `targetId` as a block, directly or nested */
+const usesSession = (
+  seq: SessionPlan,
+  targetId: string,
+  library: SavedSequence[],
+  trail: string[] = []
+): boolean =>
+  seq.tasks.some((t) => {
+    if (!t.block) return false;
+    if (t.block === targetId) return true;
+    if (trail.indexOf(t.block) !== -1) return false;
+    const inner = library.find((s) => s.id === t.block);
+    return (
+      !!inner && usesSession(inner, targetId, library, [...trail, t.block])
+    );
+  });
+
+const ordinal = (n: number) =>
+  n % 10 === 1 && n % 100 !== 11
+    ? `${n}st`
+    : n % 10 === 2 && n % 100 !== 12
+    ? `${n}nd`
+    : n % 10 === 3 && n % 100 !== 13
+    ? `${n}rd`
+    : `${n}th`;
+
+/** Short badge text for a task's round rule */
+const roundRuleLabel = (rule?: RoundRule) => {
+  if (!rule) return "";
+  switch (rule.kind) {
+    case "first":
+      return "first round";
+    case "last":
+      return "last round";
+    case "every":
+      return `every ${ordinal(rule.n)}`;
+    case "list":
+      return `round${rule.rounds.length !== 1 ? "s" : ""} ${rule.rounds.join(",")}`;
+  }
+};
 
-    return `M ${center} ${center} L ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} Z`;
-  };
+/** Parse "1, 3-5" into sorted unique round numbers */
+const parseRoundList = (text: string) => {
+  const rounds: number[] = [];
+  text.split(",").forEach((part) => {
+    const [a, b] = part.split("-").map((n) => parseInt(n, 10));
+    if (Number.isNaN(a)) return;
+    const end = b === undefined || Number.isNaN(b) ? a : b;
+    for (let r = Math.min(a, end); r <= Math.max(a, end) && r <= 99; r++)
+      if (r >= 1 && rounds.indexOf(r) === -1) rounds.push(r);
+  });
+  return rounds.sort((x, y) => x - y);
+};
 
-  return (
-    <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
-      {angles.map(({ startAngle, endAngle }, i) => {
-        const colorClass =
-          i <= currentIndex ? getSegmentColor(i) : "incomplete";
+/** Validate a stored round rule; null when it's present but malformed */
+const parseRoundRule = (raw: any): RoundRule | undefined | null => {
+  if (raw === undefined || raw === null) return undefined;
+  if (raw.kind === "first" || raw.kind === "last") return { kind: raw.kind };
+  if (raw.kind === "every" && Number.isInteger(raw.n) && raw.n >= 1)
+    return { kind: "every", n: raw.n };
+  if (
+    raw.kind === "list" &&
+    Array.isArray(raw.rounds) &&
+    raw.rounds.every((r: any) => Number.isInteger(r) && r >= 1)
+  )
+    return { kind: "list", rounds: raw.rounds.slice() };
+  return null;
+};
 
-        return (
-          <path
-            key={i}
-            d={createArc(startAngle, endAngle)}
-            className={`pie-segment ${colorClass}`}
-            stroke="#fff"
-            strokeWidth="1"
-          />
-        );
-      })}
-    </svg>
-  );
+/** ------------ Sequence text ------------ */
+/**
+ * Plain-text form of a plan, one entry per line:
+ *
+ *   # comments start with # or //
+ *   Warm-up 5:00
+ *   Work 25m @every 2
+ *   Discussion open
+ *   Squats 20 reps
+ *   [Cool-down routine] @last
+ *   x4 rounds
+ *
+ * Text rendered from a plan parses back to the same plan, so editing it and
+ * saving without changes is a no-op. Names escape what would read as syntax
+ * with a backslash: `\# 1 5:00`, `\[Draft] 5:00`, `Call \@home 5:00`.
+ */
+const SEQUENCE_TASK_RE = new RegExp(
+  `^(.*?)\\s+((\\d+(\\.\\d+)?\\s*(${TIME_UNITS})\\s*)+|\\d+(:\\d{1,2}){0,2})$`,
+  "i"
+);
+const SEQUENCE_REPS_RE = /^(.*?)\s+(\d+)\s*reps?$/i;
+const SEQUENCE_OPEN_RE = /^(.*?)\s+open$/i;
+const SEQUENCE_ROUNDS_RE = /^[x×]\s*(\d+)(\s+rounds?)?$/i;
+
+const escapeSequenceName = (name: string) =>
+  name
+    .replace(/\\/g, "\\\\")
+    .replace(/ @/g, " \\@")
+    .replace(/^(#|\/\/|\[)/, "\\$1");
+
+const unescapeSequenceName = (name: string) => name.replace(/\\(.)/g, "$1");
+
+/** One problem with the text, on a 1-based line (0 for the text as a whole) */
+type SequenceTextError = { line: number; message: string };
+
+const roundRuleText = (rule?: RoundRule) => {
+  if (!rule) return "";
+  switch (rule.kind) {
+    case "first":
+    case "last":
+      return ` @${rule.kind}`;
+    case "every":
+      return ` @every ${rule.n}`;
+    case "list":
+      return ` @rounds ${rule.rounds.join(",")}`;
+  }
 };
 
-/** Small beep using Web Audio when time hits zero */
-const ring = () => {
-  try {
-    const AudioCtx =
-      (window as any).AudioContext || (window as any).webkitAudioContext;
-    const ctx = new AudioCtx();
-    const t = ctx.currentTime;
+/** "@first", "@every 2", "@rounds 1,3-5"; null when it isn't a rule */
+const parseRoundRuleText = (text: string): RoundRule | null => {
+  const [word, ...rest] = text.trim().toLowerCase().split(/\s+/);
+  const arg = rest.join(" ");
+  if ((word === "first" || word === "last") && !arg) return { kind: word };
+  const n = parseInt(arg, 10);
+  if (word === "every" && /^\d+(st|nd|rd|th)?$/.test(arg) && n >= 1)
+    return { kind: "every", n };
+  if ((word === "round" || word === "rounds") && /^[\d,\s-]+$/.test(arg)) {
+    const rounds = parseRoundList(arg);
+    if (rounds.length) return { kind: "list", rounds };
+  }
+  return null;
+};
 
-    for (let i = 0; i < 3; i++) {
-      const o = ctx.createOscillator();
-      const g = ctx.createGain();
-      o.type = "sine";
-      o.frequency.value = 880;
-      o.connect(g);
-      g.connect(ctx.destination);
-      const startTime = t + i * 0.4;
-      g.gain.setValueAtTime(0.0001, startTime);
-      g.gain.exponentialRampToValueAtTime(0.6, startTime + 0.02);
-      g.gain.exponentialRampToValueAtTime(0.0001, startTime + 0.3);
-      o.start(startTime);
-      o.stop(startTime + 0.35);
+/** Render a plan as text; blocks show their session's current name */
+const sequenceToText = (plan: SessionPlan, library: SavedSequence[]) => {
+  const lines = plan.chain.map((id) => {
+    const task = plan.tasks.find((t) => t.id === id);
+    if (!task) return "";
+    const rule = roundRuleText(task.rounds);
+    if (task.block) {
+      const source = library.find((s) => s.id === task.block);
+      const name = escapeSequenceName(source ? source.name : task.name);
+      return `[${name}]${rule}`;
     }
-  } catch {
-    /* no-op */
-  }
+    const target = isRepTask(task)
+      ? `${task.targetReps ?? DEFAULT_TARGET_REPS} reps`
+      : isOpenEnded(task)
+      ? "open"
+      : fmt(task.targetSec);
+    return `${escapeSequenceName(task.name)} ${target}${rule}`;
+  });
+  if (plan.roundsCount > 1) lines.push(`x${plan.roundsCount} rounds`);
+  return lines.filter((line) => line).join("\n");
 };
 
-/** Pleasant chime for task completion */
-const chime = () => {
-  try {
-    const AudioCtx =
-      (window as any).AudioContext || (window as any).webkitAudioContext;
-    const ctx = new AudioCtx();
-    const t = ctx.currentTime;
+/**
+ * Parse text back into a plan. Entries take the id and other settings (notes,
+ * colors, cues…) of the first unused `previous` task with the same name, or
+ * for blocks the same session, so reworking the text keeps them. `blocks`
+ * lists the sessions a `[Name]` line may play.
+ */
+const parseSequenceText = (
+  text: string,
+  previous: Task[],
+  blocks: SavedSequence[]
+): { plan: SessionPlan; errors: SequenceTextError[] } => {
+  const tasks: Task[] = [];
+  const errors: SequenceTextError[] = [];
+  const used = new Set<string>();
+  let roundsCount = 1;
+  let roundsLine = 0;
+  const reuse = (match: (t: Task) => boolean) => {
+    const prev = previous.find((t) => !used.has(t.id) && match(t));
+    if (prev) used.add(prev.id);
+    return prev;
+  };
+  text.split("\n").forEach((raw, i) => {
+    const line = raw.trim();
+    const fail = (message: string) => errors.push({ line: i + 1, message });
+    if (!line || line[0] === "#" || line.startsWith("//")) return;
+
+    const rounds = SEQUENCE_ROUNDS_RE.exec(line);
+    if (rounds) {
+      const n = parseInt(rounds[1], 10);
+      if (roundsLine) fail(`Rounds are already set on line ${roundsLine}`);
+      else if (n < 1 || n > MAX_ROUNDS)
+        fail(`Rounds must be between 1 and ${MAX_ROUNDS}`);
+      else {
+        roundsCount = n;
+        roundsLine = i + 1;
+      }
+      return;
+    }
+    if (tasks.length >= MAX_TASKS) {
+      fail(`A session holds at most ${MAX_TASKS} tasks`);
+      return;
+    }
 
-    const playNote = (freq: number, startTime: number, gainPeak = 0.2) => {
-      const o = ctx.createOscillator();
-      const g = ctx.createGain();
-      o.type = "sine";
-      o.frequency.value = freq;
-      o.connect(g);
-      g.connect(ctx.destination);
+    let body = line;
+    let rule: RoundRule | undefined;
+    const at = line.lastIndexOf(" @");
+    if (at !== -1) {
+      const parsed = parseRoundRuleText(line.slice(at + 2));
+      if (!parsed) {
+        fail(
+          `Unknown round rule "${line.slice(at + 1)}"; use @first, @last, ` +
+            "@every 2 or @rounds 1,3"
+        );
+        return;
+      }
+      rule = parsed;
+      body = line.slice(0, at).trim();
+    }
+    const withRule = (task: Task): Task => {
+      const { rounds: _previous, ...rest } = task;
+      return rule ? { ...rest, rounds: rule } : rest;
+    };
 
-      g.gain.setValueAtTime(0.0001, startTime);
-      g.gain.exponentialRampToValueAtTime(gainPeak, startTime + 0.02);
-      g.gain.exponentialRampToValueAtTime(0.0001, startTime + 0.25);
-      o.start(startTime);
-      o.stop(startTime + 0.3);
+    const block = /^\[(.*)\]$/.exec(body);
+    if (block) {
+      const blockName = unescapeSequenceName(block[1].trim());
+      const name = blockName.toLowerCase();
+      const source = blocks.find((s) => s.name.trim().toLowerCase() === name);
+      if (!source) {
+        fail(`There is no saved session called "${blockName}"`);
+        return;
+      }
+      const prev = reuse((t) => t.block === source.id);
+      tasks.push(
+        withRule({
+          ...(prev ?? {}),
+          id: prev ? prev.id : generateId(),
+          name: source.name,
+          targetSec: 0,
+          block: source.id,
+        })
+      );
+      return;
+    }
+
+    let name: string;
+    let kind: TaskKind = "countdown";
+    let targetSec: number | undefined;
+    let targetReps: number | undefined;
+    const reps = SEQUENCE_REPS_RE.exec(body);
+    const open = SEQUENCE_OPEN_RE.exec(body);
+    const timed = SEQUENCE_TASK_RE.exec(body);
+    if (reps) {
+      name = reps[1];
+      kind = "reps";
+      targetReps = parseInt(reps[2], 10);
+      if (targetReps < 1 || targetReps > 999) {
+        fail("Reps must be between 1 and 999");
+        return;
+      }
+    } else if (open) {
+      name = open[1];
+      kind = "countup";
+    } else if (timed) {
+      name = timed[1];
+      targetSec = parseTime(timed[2]);
+    } else {
+      fail(
+        `Add a duration after "${body}", such as 5:00, 25m or 90s ` +
+          '(or "open", or "20 reps")'
+      );
+      return;
+    }
+    if (!name.trim()) {
+      fail("Give the task a name before its duration");
+      return;
+    }
+    name = unescapeSequenceName(name.trim());
+    const prev = reuse((t) => !t.block && t.name === name);
+    const { block: _block, ...base } = prev ?? {
+      id: generateId(),
+      name,
+      targetSec: 60,
     };
+    const task = withKind(
+      {
+        ...base,
+        name,
+        targetSec: targetSec ?? base.targetSec,
+        ...(targetReps ? { targetReps } : {}),
+      },
+      kind
+    );
+    tasks.push(withRule(task));
+  });
+  if (!tasks.length && !errors.length)
+    errors.push({ line: 0, message: "Add at least one task" });
+  return {
+    plan: { tasks, chain: tasks.map((t) => t.id), roundsCount },
+    errors,
+  };
+};
 
-    playNote(880, t);
-    playNote(1108.73, t + 0.1);
-  } catch {
-    /* no-op */
-  }
+/** Text editor for a whole plan; `onApply` only runs when it changed */
+const SequenceTextEditor = ({
+  plan,
+  library,
+  blocks = library,
+  onApply,
+  onCancel,
+}: {
+  plan: SessionPlan;
+  library: SavedSequence[];
+  blocks?: SavedSequence[];
+  onApply: (plan: SessionPlan) => void;
+  onCancel: () => void;
+}) => {
+  const [initial] = useState(() => sequenceToText(plan, library));
+  const [text, setText] = useState(initial);
+  const { plan: parsed, errors } = useMemo(
+    () => parseSequenceText(text, plan.tasks, blocks),
+    [text, plan.tasks, blocks]
+  );
+  const apply = () => {
+    if (errors.length) return;
+    if (sequenceToText(parsed, library) === initial) onCancel();
+    else onApply(parsed);
+  };
+  return (
+    <div className="sequence-text-editor">
+      <textarea
+        className={`sequence-text-input ${errors.length ? "has-errors" : ""}`}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) apply();
+          else if (e.key === "Escape") onCancel();
+        }}
+        rows={Math.min(16, Math.max(6, text.split("\n").length + 1))}
+        spellCheck={false}
+        aria-label="Tasks as text"
+        aria-invalid={errors.length > 0}
+        autoFocus
+      />
+      {errors.length > 0 ? (
+        <ul className="sequence-text-errors" role="alert">
+          {errors.map((err) => (
+            <li key={`${err.line}-${err.message}`}>
+              {err.line > 0 && <strong>Line {err.line}:</strong>}{" "}
+              {err.message}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="setting-help">
+          One task per line: a name then a duration (5:00, 25m, 1h 30m), "open"
+          to count up or "20 reps". [Session name] plays a saved session as a
+          block; end a line with @first, @last, @every 2 or @rounds 1,3 to
+          pick its rounds. "x4 rounds" sets the rounds, and lines starting
+          with # are comments; put \ before a # or [ that starts a name.
+        </div>
+      )}
+      <div className="sequence-text-actions">
+        <button className="btn btn-cancel" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          className="btn btn-save"
+          onClick={apply}
+          disabled={errors.length > 0}
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
 };
 
-/** ------------ Sound effect suite ------------ */
-const sweep = (
-  startHz: number,
-  endHz: number,
-  duration = 0.12,
-  type: OscillatorType = "sine",
-  gainPeak = 0.08
+/** ------------ Breaks between rounds ------------ */
+const DEFAULT_BREAKS: BreakSettings = {
+  enabled: false,
+  shortSec: 5 * 60,
+  longSec: 15 * 60,
+  longEvery: 4,
+};
+
+const isLongBreak = (breaks: BreakSettings, rIdx: number) =>
+  breaks.longEvery > 0 && (rIdx + 1) % breaks.longEvery === 0;
+
+/** Length of the break after round `rIdx`; there is none after the last one */
+const breakAfterRound = (
+  breaks: BreakSettings | undefined,
+  rIdx: number,
+  roundsCount: number
 ) => {
-  try {
-    const AudioCtx =
-      (window as any).AudioContext || (window as any).webkitAudioContext;
-    const ctx = new AudioCtx();
-    const o = ctx.createOscillator();
-    const g = ctx.createGain();
+  if (!breaks || !breaks.enabled || rIdx >= roundsCount - 1) return 0;
+  return isLongBreak(breaks, rIdx) ? breaks.longSec : breaks.shortSec;
+};
 
-    o.type = type;
-    o.connect(g);
-    g.connect(ctx.destination);
+/** Validate stored break settings; null when present but malformed */
+const parseBreakSettings = (raw: any): BreakSettings | undefined | null => {
+  if (raw === undefined || raw === null) return undefined;
+  const secs = [raw.shortSec, raw.longSec, raw.longEvery];
+  if (
+    typeof raw.enabled !== "boolean" ||
+    secs.some((n) => typeof n !== "number" || !isFinite(n) || n < 0)
+  )
+    return null;
+  return {
+    enabled: raw.enabled,
+    shortSec: Math.floor(raw.shortSec),
+    longSec: Math.floor(raw.longSec),
+    longEvery: Math.floor(raw.longEvery),
+  };
+};
 
-    const t = ctx.currentTime;
-    o.frequency.setValueAtTime(startHz, t);
-    o.frequency.linearRampToValueAtTime(endHz, t + duration);
+/** Text field for a duration, committed on blur or Enter */
+const DurationInput = ({
+  id,
+  sec,
+  onChange,
+  className = "",
+}: {
+  id?: string;
+  sec: number;
+  onChange: (sec: number) => void;
+  className?: string;
+}) => {
+  const [text, setText] = useState(fmt(sec));
+  useEffect(() => setText(fmt(sec)), [sec]);
+  const commit = () => {
+    const next = parseTime(text);
+    setText(fmt(next));
+    if (next !== sec) onChange(next);
+  };
+  return (
+    <input
+      id={id}
+      className={className}
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+    />
+  );
+};
+
+/** ------------ Overtime policies ------------ */
+const DEFAULT_OVERTIME: OvertimePolicy = { mode: "count", graceSec: 60 };
+
+const OVERTIME_MODE_LABELS: Record<OvertimeMode, string> = {
+  count: "Keep counting",
+  complete: "Mark done after a grace period",
+  skip: "Skip after a grace period",
+  escalate: "Ring again, more and more often",
+};
+
+// Escalating re-rings never come closer together than this
+const MIN_RERING_GAP_SEC = 5;
+
+/** Seconds over target at which re-ring `n` (from 0) is due; each gap halves */
+const reRingOffsetSec = (graceSec: number, n: number) => {
+  let offset = 0;
+  for (let k = 0; k <= n; k++)
+    offset += Math.max(
+      MIN_RERING_GAP_SEC,
+      Math.floor(graceSec / Math.pow(2, k))
+    );
+  return offset;
+};
+
+/** Validate a stored overtime policy; null when present but malformed */
+const parseOvertimePolicy = (
+  raw: any
+): OvertimePolicy | undefined | null => {
+  if (raw === undefined || raw === null) return undefined;
+  if (
+    !Object.prototype.hasOwnProperty.call(OVERTIME_MODE_LABELS, raw.mode) ||
+    typeof raw.graceSec !== "number" ||
+    !isFinite(raw.graceSec) ||
+    raw.graceSec < 0
+  )
+    return null;
+  return { mode: raw.mode, graceSec: Math.floor(raw.graceSec) };
+};
+
+/** How a result's overrun was handled, for reports; null when unremarkable */
+const overtimeNote = (res: TaskResult) =>
+  res.forced
+    ? res.overtime === "skip"
+      ? "auto-skipped"
+      : "auto-completed"
+    : res.overtime === "escalate"
+    ? "re-rang"
+    : null;
+
+/** Mode picker plus the grace period the mode waits for */
+const OvertimePolicyFields = ({
+  idPrefix,
+  policy,
+  onChange,
+}: {
+  idPrefix: string;
+  policy: OvertimePolicy;
+  onChange: (policy: OvertimePolicy) => void;
+}) => (
+  <div className="setting-row" style={{ paddingLeft: "20px" }}>
+    <select
+      id={`${idPrefix}-mode`}
+      value={policy.mode}
+      onChange={(e) =>
+        onChange({ ...policy, mode: e.target.value as OvertimeMode })
+      }
+    >
+      {(Object.keys(OVERTIME_MODE_LABELS) as OvertimeMode[]).map((mode) => (
+        <option key={mode} value={mode}>
+          {OVERTIME_MODE_LABELS[mode]}
+        </option>
+      ))}
+    </select>
+    {policy.mode !== "count" && (
+      <>
+        <label htmlFor={`${idPrefix}-grace`}>
+          {policy.mode === "escalate" ? "first after" : "after"}
+        </label>
+        <DurationInput
+          id={`${idPrefix}-grace`}
+          className="setting-number"
+          sec={policy.graceSec}
+          onChange={(graceSec) => onChange({ ...policy, graceSec })}
+        />
+      </>
+    )}
+  </div>
+);
+
+/** ------------ Rollover ------------ */
+const ROLLOVER_MODE_LABELS: Record<RolloverMode, string> = {
+  off: "Off",
+  next: "To the next task in the round",
+  rounds: "To the next task, across rounds",
+  debt: "Across rounds, charging overtime too",
+  bank: "Into a bank to spend on demand",
+};
+const DEFAULT_DEBT_FLOOR_SEC = 30;
 
-    g.gain.setValueAtTime(0.0001, t);
-    g.gain.exponentialRampToValueAtTime(gainPeak, t + 0.015);
-    g.gain.exponentialRampToValueAtTime(0.0001, t + duration);
+/** Picker for a task's round rule, with a text field for explicit lists */
+const RoundRuleSelect = ({
+  rule,
+  onChange,
+  className = "",
+}: {
+  rule?: RoundRule;
+  onChange: (rule?: RoundRule) => void;
+  className?: string;
+}) => {
+  const value = !rule
+    ? "all"
+    : rule.kind === "every"
+    ? `every:${rule.n}`
+    : rule.kind;
+  return (
+    <span className="round-rule">
+      <select
+        className={`round-rule-select ${className}`}
+        value={value}
+        title="Rounds this task runs in"
+        onChange={(e) => {
+          const v = e.target.value;
+          if (v === "all") onChange(undefined);
+          else if (v === "first" || v === "last") onChange({ kind: v });
+          else if (v === "list") onChange({ kind: "list", rounds: [1] });
+          else onChange({ kind: "every", n: parseInt(v.split(":")[1], 10) });
+        }}
+      >
+        <option value="all">Every round</option>
+        <option value="first">First round</option>
+        <option value="last">Last round</option>
+        <option value="every:2">Every 2nd</option>
+        <option value="every:3">Every 3rd</option>
+        <option value="every:4">Every 4th</option>
+        <option value="list">Rounds…</option>
+      </select>
+      {rule?.kind === "list" && (
+        <input
+          className={`round-rule-list ${className}`}
+          type="text"
+          defaultValue={rule.rounds.join(",")}
+          placeholder="1,3"
+          title="Round numbers, e.g. 1,3-5"
+          onBlur={(e) => {
+            const rounds = parseRoundList(e.target.value);
+            onChange(rounds.length ? { kind: "list", rounds } : undefined);
+          }}
+        />
+      )}
+    </span>
+  );
+};
 
-    o.start(t);
-    o.stop(t + duration + 0.02);
+/** ------------ Live session persistence ------------ */
+const LIVE_SESSION_KEY = "weaselTimerLiveSession";
+// Snapshots older than this prompt before resuming instead of restoring silently
+const STALE_SESSION_MS = 15 * 60 * 1000;
+// While a timer runs, the snapshot is rewritten this often so `savedAt` stays
+// close to when the page last ran, even if it then crashes
+const LIVE_SESSION_HEARTBEAT_MS = 15 * 1000;
+const MAX_UNDO = 50;
+// How long the toast offering to undo a destructive step stays up
+const UNDO_TOAST_MS = 5000;
+
+const saveLiveSession = (session: LiveSession) => {
+  try {
+    localStorage.setItem(LIVE_SESSION_KEY, JSON.stringify(session));
   } catch {
     /* no-op */
   }
 };
 
-const playIncrease = () => sweep(660, 960, 0.12, "sine", 0.08);
-const playDecrease = () => sweep(700, 420, 0.12, "sine", 0.08);
-const playStart = () => sweep(440, 660, 0.1, "sine", 0.06);
-const playPause = () => sweep(660, 440, 0.1, "sine", 0.06);
-const playNav = () => sweep(800, 550, 0.1, "sine", 0.05);
-const playRestartSound = () => sweep(900, 300, 0.15, "sine", 0.07);
-const playFocusToggle = () => sweep(300, 900, 0.1, "triangle", 0.04);
+/** Read the stored snapshot, rejecting anything that no longer lines up */
+const loadLiveSession = (): LiveSession | null => {
+  try {
+    const raw = localStorage.getItem(LIVE_SESSION_KEY);
+    if (!raw) return null;
+    const s = JSON.parse(raw) as LiveSession;
+    if (!Array.isArray(s.tasks) || !Array.isArray(s.chain) || !s.chain.length)
+      return null;
+    const ids = new Set(s.tasks.map((t) => t.id));
+    if (s.chain.some((id) => !ids.has(id))) return null;
+    const roundsCount = clamp(
+      Math.floor(Number(s.roundsCount)) || 1,
+      1,
+      MAX_ROUNDS
+    );
+    if (
+      !Array.isArray(s.rounds) ||
+      s.rounds.length !== roundsCount ||
+      s.rounds.some((row) => !Array.isArray(row) || row.length !== s.chain.length)
+    )
+      return null;
+    return {
+      ...s,
+      roundsCount,
+      currentRoundIndex: clamp(s.currentRoundIndex || 0, 0, roundsCount - 1),
+      currentTaskIndex: clamp(s.currentTaskIndex || 0, 0, s.chain.length - 1),
+      pausedOffsetMs: Math.max(0, s.pausedOffsetMs || 0),
+      rolloverOffsetSec: Math.floor(Number(s.rolloverOffsetSec)) || 0,
+      heldCarrySec: Math.floor(Number(s.heldCarrySec)) || 0,
+      bankSec: Math.max(0, Math.floor(Number(s.bankSec)) || 0),
+      repCount: Math.max(0, Math.floor(s.repCount) || 0),
+      breaks: parseBreakSettings(s.breaks) || { ...DEFAULT_BREAKS },
+      overtime: parseOvertimePolicy(s.overtime) || { ...DEFAULT_OVERTIME },
+      onBreak: !!s.onBreak,
+      sequenceName: s.sequenceName || "",
+      sessionStartedAt: s.sessionStartedAt ?? null,
+    };
+  } catch (e) {
+    console.error("Failed to load live session:", e);
+    return null;
+  }
+};
 
-const playSessionComplete = () => {
+/** Whether a snapshot holds anything beyond an untouched plan */
+const hasSessionProgress = (s: LiveSession) =>
+  s.runState !== "idle" ||
+  s.isSessionComplete ||
+  s.onBreak ||
+  s.currentRoundIndex > 0 ||
+  s.currentTaskIndex > 0 ||
+  s.rounds.some((row) => row.some((r) => r.status !== "incomplete"));
+
+/** ------------ Session history ------------ */
+const HISTORY_KEY = "weaselTimerHistory";
+const MAX_HISTORY = 200;
+
+const loadHistory = (): SessionRecord[] => {
+  const saved = localStorage.getItem(HISTORY_KEY);
+  if (!saved) return [];
   try {
-    const AudioCtx =
-      (window as any).AudioContext || (window as any).webkitAudioContext;
-    const ctx = new AudioCtx();
-    const t = ctx.currentTime;
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to load history:", e);
+    return [];
+  }
+};
 
-    const playNote = (freq: number, startTime: number, gainPeak = 0.15) => {
-      const o = ctx.createOscillator();
-      const g = ctx.createGain();
-      o.type = "sine";
-      o.frequency.value = freq;
-      o.connect(g);
-      g.connect(ctx.destination);
+const buildSessionRecord = (
+  name: string,
+  startedAt: number,
+  endedAt: number,
+  tasks: Task[],
+  chain: string[],
+  rounds: TaskResult[][],
+  settings: SessionRecord["settings"],
+  completed: boolean
+): SessionRecord => ({
+  id: generateId(),
+  name: name.trim() || "Untitled session",
+  startedAt,
+  endedAt,
+  completed,
+  tasks: chain
+    .map((id) => tasks.find((t) => t.id === id))
+    .filter((t): t is Task => !!t)
+    .map((t) => ({ ...t })),
+  rounds: rounds.map((row) => row.map((r) => ({ ...r }))),
+  settings,
+});
+
+/** Time actually spent across every round of a recorded run */
+const recordActualSec = (record: SessionRecord) =>
+  record.rounds.reduce(
+    (sum, row) => sum + row.reduce((s, r) => s + (r.actualSec || 0), 0),
+    0
+  );
 
-      g.gain.setValueAtTime(0.0001, startTime);
-      g.gain.exponentialRampToValueAtTime(gainPeak, startTime + 0.02);
-      g.gain.exponentialRampToValueAtTime(0.0001, startTime + 0.25);
-      o.start(startTime);
-      o.stop(startTime + 0.3);
-    };
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  incomplete: "Not reached",
+  complete_at: "On time",
+  complete_under: "Under",
+  complete_over: "Over",
+  skipped: "Skipped",
+};
 
-    playNote(523.25, t);
-    playNote(659.25, t + 0.1);
-    playNote(783.99, t + 0.2);
-    playNote(1046.5, t + 0.3);
-  } catch {
-    /* no-op */
-  }
+const resultLightColor = (res?: TaskResult) => {
+  if (!res || res.status === "incomplete" || res.status === "skipped")
+    return "gray";
+  return res.status === "complete_over" ? "orange" : "green";
 };
 
-/** ------------------------------------------------------------------------- */
+/** ------------ Built-in presets ------------ */
+type PresetParam = {
+  key: string;
+  label: string;
+  kind: "duration" | "count";
+  value: number; // default
+  min: number;
+  max: number;
+};
+type SessionPlan = Pick<
+  SavedSequence,
+  "tasks" | "chain" | "roundsCount" | "breaks" | "overtime"
+>;
+/** A read-only session recipe; `build` turns parameter values into a plan */
+type Preset = {
+  id: string;
+  name: string;
+  description: string;
+  params: PresetParam[];
+  build: (values: Record<string, number>) => SessionPlan;
+};
 
-export default function App() {
-  const [isLoading, setIsLoading] = useState(true);
+const presetPlan = (
+  tasks: Omit<Task, "id">[],
+  roundsCount: number,
+  breaks?: BreakSettings
+): SessionPlan => {
+  const withIds = tasks.map((t) => ({ ...t, id: generateId() }));
+  return {
+    tasks: withIds,
+    chain: withIds.map((t) => t.id),
+    roundsCount,
+    ...(breaks ? { breaks } : {}),
+  };
+};
 
-  // Preload button icons and show loading screen until ready
-  useEffect(() => {
-    const iconPaths = [
-      "/repeat-icon.svg",
-      "/pause-icon.svg",
-      "/play-icon.svg",
-      "/done-icon.svg",
-      "/weasel-logo-newer-png-small.png",
-    ];
+const durationParam = (
+  key: string,
+  label: string,
+  value: number,
+  min: number,
+  max: number
+): PresetParam => ({ key, label, kind: "duration", value, min, max });
+
+const roundsParam = (value: number): PresetParam => ({
+  key: "rounds",
+  label: "Rounds",
+  kind: "count",
+  value,
+  min: 1,
+  max: MAX_ROUNDS,
+});
+
+/** The same rest after every round, with no separate long break */
+const restBreaks = (sec: number): BreakSettings => ({
+  enabled: true,
+  shortSec: sec,
+  longSec: sec,
+  longEvery: 0,
+});
+
+const PRESETS: Preset[] = [
+  {
+    id: "pomodoro",
+    name: "Pomodoro",
+    description:
+      "Focus blocks with a short break after each one and a long break " +
+      "every fourth.",
+    params: [
+      durationParam("work", "Focus", 25 * 60, 60, 3 * 3600),
+      durationParam("short", "Short break", 5 * 60, 0, 3600),
+      durationParam("long", "Long break", 15 * 60, 0, 3600),
+      roundsParam(8),
+    ],
+    build: (v) =>
+      presetPlan([{ name: "Focus", targetSec: v.work }], v.rounds, {
+        enabled: true,
+        shortSec: v.short,
+        longSec: v.long,
+        longEvery: 4,
+      }),
+  },
+  {
+    id: "52-17",
+    name: "52/17",
+    description: "Long stretches of work, each followed by a generous rest.",
+    params: [
+      durationParam("work", "Work", 52 * 60, 60, 3 * 3600),
+      durationParam("rest", "Rest", 17 * 60, 0, 3600),
+      roundsParam(3),
+    ],
+    build: (v) =>
+      presetPlan(
+        [{ name: "Work", targetSec: v.work }],
+        v.rounds,
+        restBreaks(v.rest)
+      ),
+  },
+  {
+    id: "tabata",
+    name: "Tabata",
+    description: "Short all-out efforts with even shorter rests in between.",
+    params: [
+      durationParam("work", "Work", 20, 5, 600),
+      durationParam("rest", "Rest", 10, 0, 600),
+      roundsParam(8),
+    ],
+    build: (v) =>
+      presetPlan(
+        [{ name: "Work", targetSec: v.work }],
+        v.rounds,
+        restBreaks(v.rest)
+      ),
+  },
+  {
+    id: "emom",
+    name: "EMOM",
+    description:
+      "Every minute on the minute: start a set at the top of each interval " +
+      "and rest for whatever is left.",
+    params: [
+      durationParam("interval", "Interval", 60, 10, 600),
+      roundsParam(10),
+    ],
+    build: (v) =>
+      presetPlan([{ name: "Set", targetSec: v.interval }], v.rounds),
+  },
+  {
+    id: "hiit",
+    name: "HIIT",
+    description: "Warm up, alternate hard work with recovery, then cool down.",
+    params: [
+      durationParam("warmup", "Warm-up", 5 * 60, 0, 1800),
+      durationParam("work", "Work", 40, 5, 600),
+      durationParam("rest", "Rest", 20, 0, 600),
+      roundsParam(8),
+      durationParam("cooldown", "Cool-down", 5 * 60, 0, 1800),
+    ],
+    build: (v) => {
+      const tasks: Omit<Task, "id">[] = [{ name: "Work", targetSec: v.work }];
+      if (v.warmup > 0)
+        tasks.unshift({
+          name: "Warm-up",
+          targetSec: v.warmup,
+          rounds: { kind: "first" },
+        });
+      if (v.cooldown > 0)
+        tasks.push({
+          name: "Cool-down",
+          targetSec: v.cooldown,
+          rounds: { kind: "last" },
+        });
+      return presetPlan(tasks, v.rounds, restBreaks(v.rest));
+    },
+  },
+];
 
-    const startTime = Date.now();
-    const minLoadingTime = 1500;
+const presetDefaults = (preset: Preset) => {
+  const values: Record<string, number> = {};
+  preset.params.forEach((p) => (values[p.key] = p.value));
+  return values;
+};
 
-    let loadedCount = 0;
-    const totalIcons = iconPaths.length;
+/** Total break time a plan adds between its rounds */
+const breaksTotalSec = (
+  breaks: BreakSettings | undefined,
+  roundsCount: number
+) => {
+  let total = 0;
+  for (let r = 0; r < roundsCount; r++)
+    total += breakAfterRound(breaks, r, roundsCount);
+  return total;
+};
 
-    // Create a hidden container to force browser to cache images
-    const hiddenContainer = document.createElement("div");
-    hiddenContainer.style.position = "absolute";
-    hiddenContainer.style.left = "-9999px";
-    hiddenContainer.style.top = "-9999px";
-    document.body.appendChild(hiddenContainer);
+/** ------------ Session files (export / import) ------------ */
+const SESSION_FILE_FORMAT = "weasel-sessions";
+const SESSION_FILE_VERSION = 1;
+type SessionFile = {
+  format: typeof SESSION_FILE_FORMAT;
+  version: number;
+  exportedAt: number;
+  sessions: SavedSequence[];
+};
 
-    const finishLoading = () => {
-      const elapsed = Date.now() - startTime;
-      const remaining = Math.max(0, minLoadingTime - elapsed);
+/** Trigger a browser download of in-memory text */
+const downloadFile = (filename: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
 
-      setTimeout(() => {
-        setIsLoading(false);
-        // Keep the hidden container in the DOM to maintain cache
-      }, remaining + 500);
-    };
+const fileSlug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "session";
+
+const exportSessions = (sessions: SavedSequence[], filename: string) => {
+  const file: SessionFile = {
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    exportedAt: Date.now(),
+    sessions,
+  };
+  downloadFile(filename, JSON.stringify(file, null, 2), "application/json");
+};
 
-    iconPaths.forEach((path) => {
-      const img = new Image();
-      img.onload = () => {
-        loadedCount++;
-        // Add loaded image to hidden container
-        hiddenContainer.appendChild(img);
-        if (loadedCount === totalIcons) {
-          finishLoading();
-        }
-      };
-      img.onerror = () => {
-        loadedCount++;
-        if (loadedCount === totalIcons) {
-          finishLoading();
-        }
-      };
-      img.src = path;
-    });
+/** Validate one session from a file, throwing a readable error on bad data */
+const parseImportedSession = (raw: any, label: string): SavedSequence => {
+  if (!raw || typeof raw !== "object") throw new Error(`${label} is not an object`);
+  if (typeof raw.name !== "string" || !raw.name.trim())
+    throw new Error(`${label} has no name`);
+  const where = `${label} ("${raw.name}")`;
+  if (!Array.isArray(raw.tasks) || raw.tasks.length === 0)
+    throw new Error(`${where} has no tasks`);
+  const tasks: Task[] = raw.tasks.map((t: any, i: number) => {
+    if (
+      !t ||
+      typeof t.id !== "string" ||
+      !t.id ||
+      typeof t.name !== "string" ||
+      typeof t.targetSec !== "number" ||
+      !isFinite(t.targetSec) ||
+      t.targetSec < 0
+    )
+      throw new Error(`${where}: task ${i + 1} is malformed`);
+    const rule = parseRoundRule(t.rounds);
+    if (rule === null)
+      throw new Error(`${where}: task ${i + 1} has an invalid round rule`);
+    if (t.kind !== undefined && !TASK_KIND_LABELS.hasOwnProperty(t.kind))
+      throw new Error(`${where}: task ${i + 1} has an unknown kind`);
+    if (
+      t.kind === "reps" &&
+      t.targetReps !== undefined &&
+      !(Number.isInteger(t.targetReps) && t.targetReps >= 1)
+    )
+      throw new Error(`${where}: task ${i + 1} has an invalid rep count`);
+    if (t.notes !== undefined && typeof t.notes !== "string")
+      throw new Error(`${where}: task ${i + 1} has malformed notes`);
+    if (
+      t.checklist !== undefined &&
+      !(
+        Array.isArray(t.checklist) &&
+        t.checklist.every(
+          (c: any) => c && typeof c.id === "string" && typeof c.text === "string"
+        )
+      )
+    )
+      throw new Error(`${where}: task ${i + 1} has a malformed checklist`);
+    if (t.color !== undefined && !isHexColor(t.color))
+      throw new Error(`${where}: task ${i + 1} has an invalid color`);
+    if (t.category !== undefined && typeof t.category !== "string")
+      throw new Error(`${where}: task ${i + 1} has a malformed category`);
+    if (
+      t.endSound !== undefined &&
+      EVENT_DESIGNS.taskEnd.indexOf(t.endSound) === -1
+    )
+      throw new Error(`${where}: task ${i + 1} has an unknown end sound`);
+    const cues = parseWarningCues(t.cues);
+    if (cues === null)
+      throw new Error(`${where}: task ${i + 1} has invalid warning cues`);
+    const overtime = parseOvertimePolicy(t.overtime);
+    if (overtime === null)
+      throw new Error(`${where}: task ${i + 1} has an invalid overtime policy`);
+    if (t.block !== undefined && (typeof t.block !== "string" || !t.block))
+      throw new Error(`${where}: task ${i + 1} has a malformed block`);
+    return withKind<Task>(
+      {
+        id: t.id,
+        name: t.name,
+        targetSec: Math.floor(t.targetSec),
+        ...(t.kind === "reps" && t.targetReps
+          ? { targetReps: t.targetReps }
+          : {}),
+        ...(rule ? { rounds: rule } : {}),
+        ...(t.notes ? { notes: t.notes } : {}),
+        ...(t.checklist?.length
+          ? {
+              checklist: t.checklist.map((c: ChecklistItem) => ({
+                id: c.id,
+                text: c.text,
+              })),
+            }
+          : {}),
+        ...(t.color ? { color: t.color } : {}),
+        ...(t.category?.trim() ? { category: t.category.trim() } : {}),
+        ...(t.endSound ? { endSound: t.endSound } : {}),
+        ...(cues ? { cues } : {}),
+        ...(overtime ? { overtime } : {}),
+        ...(t.block ? { block: t.block } : {}),
+      },
+      t.kind
+    );
+  });
+  const ids = new Set<string>();
+  tasks.forEach((t) => {
+    if (ids.has(t.id)) throw new Error(`${where}: duplicate task id "${t.id}"`);
+    ids.add(t.id);
+  });
+  if (!Array.isArray(raw.chain) || raw.chain.length === 0)
+    throw new Error(`${where} has an empty chain`);
+  if (raw.chain.length > MAX_TASKS)
+    throw new Error(
+      `${where} has more than ${MAX_TASKS} tasks in its chain`
+    );
+  const seen = new Set<string>();
+  raw.chain.forEach((id: any, i: number) => {
+    if (typeof id !== "string" || !ids.has(id))
+      throw new Error(`${where}: chain entry ${i + 1} has no matching task`);
+    if (seen.has(id))
+      throw new Error(`${where}: task "${id}" appears twice in the chain`);
+    seen.add(id);
+  });
+  const roundsCount = Number(raw.roundsCount);
+  if (!Number.isInteger(roundsCount) || roundsCount < 1)
+    throw new Error(`${where} has an invalid rounds count`);
+  if (roundsCount > MAX_ROUNDS)
+    throw new Error(
+      `${where} has ${roundsCount} rounds; a session can have at most ` +
+        `${MAX_ROUNDS}`
+    );
+  const breaks = parseBreakSettings(raw.breaks);
+  if (breaks === null) throw new Error(`${where} has invalid break settings`);
+  const overtime = parseOvertimePolicy(raw.overtime);
+  if (overtime === null)
+    throw new Error(`${where} has an invalid overtime policy`);
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : `seq-${generateId()}`,
+    name: raw.name.trim(),
+    tasks,
+    chain: raw.chain.slice(),
+    roundsCount,
+    ...(breaks ? { breaks } : {}),
+    ...(overtime ? { overtime } : {}),
+    savedAt: typeof raw.savedAt === "number" ? raw.savedAt : Date.now(),
+  };
+};
 
-    // Cleanup function
-    return () => {
-      if (hiddenContainer.parentNode) {
-        hiddenContainer.parentNode.removeChild(hiddenContainer);
-      }
+/** Parse and validate an exported sessions file */
+const parseSessionsFile = (text: string): SavedSequence[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!data || data.format !== SESSION_FILE_FORMAT)
+    throw new Error("This is not a weasel.io sessions file.");
+  if (typeof data.version !== "number" || data.version > SESSION_FILE_VERSION)
+    throw new Error(
+      `This file uses format version ${data.version}, which this app can't read.`
+    );
+  if (!Array.isArray(data.sessions) || data.sessions.length === 0)
+    throw new Error("The file contains no sessions.");
+  return data.sessions.map((raw: any, i: number) =>
+    parseImportedSession(raw, `Session ${i + 1}`)
+  );
+};
+
+/**
+ * Give imported sessions fresh ids wherever they collide with ids already in
+ * use. Task ids are shared with the live task list, so reusing one would make
+ * loading the import overwrite an unrelated task. Blocks that reference a
+ * session from the same file follow it to its new id.
+ */
+const remapImportedSessions = (
+  sessions: SavedSequence[],
+  takenTaskIds: Set<string>,
+  takenSessionIds: Set<string>
+): SavedSequence[] => {
+  const sessionIdMap: Record<string, string> = {};
+  const sessionIds = sessions.map((seq) => {
+    const id = takenSessionIds.has(seq.id) ? `seq-${generateId()}` : seq.id;
+    takenSessionIds.add(id);
+    if (!sessionIdMap.hasOwnProperty(seq.id)) sessionIdMap[seq.id] = id;
+    return id;
+  });
+  return sessions.map((seq, k) => {
+    const idMap: Record<string, string> = {};
+    seq.tasks.forEach((t) => {
+      idMap[t.id] = takenTaskIds.has(t.id) ? generateId() : t.id;
+      takenTaskIds.add(idMap[t.id]);
+    });
+    return {
+      ...seq,
+      id: sessionIds[k],
+      tasks: seq.tasks.map((t) => ({
+        ...t,
+        id: idMap[t.id],
+        ...(t.block ? { block: sessionIdMap[t.block] ?? t.block } : {}),
+      })),
+      chain: seq.chain.map((taskId) => idMap[taskId]),
     };
-  }, []);
+  });
+};
 
-  /** ------- Tasks/Chain ------- */
-  const [tasks, setTasks] = useState<Task[]>(INITIAL_TASKS);
-  const [chain, setChain] = useState<string[]>(INITIAL_CHAIN);
-  const [lastAddedId, setLastAddedId] = useState<string | null>(null);
-  const byId = (id: string) => tasks.find((t) => t.id === id)!;
+/** ------------ Share links ------------ */
+const SHARE_HASH_PREFIX = "#share=";
+const SHARE_LINK_VERSION = 1;
+
+/**
+ * A session packed for a link. Tasks go in chain order as [name, seconds],
+ * plus an object of their other fields when they have any; ids are left out
+ * and handed out afresh on the way back in, except for sessions played as
+ * blocks, which keep theirs so the block entries still find them
+ */
+type SharedSession = {
+  i?: string;
+  n: string;
+  r: number;
+  t: ([string, number] | [string, number, Partial<Task>])[];
+  b?: BreakSettings;
+  o?: OvertimePolicy;
+};
 
-  /** ------- Rounds / Results ------- */
-  const [roundsCount, setRoundsCount] = useState<number>(3);
-  const [rounds, setRounds] = useState<TaskResult[][]>(() =>
-    Array.from({ length: 3 }, () =>
-      INITIAL_CHAIN.map((): TaskResult => ({ status: "incomplete" as TaskStatus, actualSec: null }))
-    )
+const packSession = (seq: SavedSequence, keepId: boolean): SharedSession => ({
+  ...(keepId ? { i: seq.id } : {}),
+  n: seq.name,
+  r: seq.roundsCount,
+  t: seq.chain
+    .map((id) => seq.tasks.find((t) => t.id === id))
+    .filter((t): t is Task => !!t)
+    .map(({ id: _id, name, targetSec, fromBlock: _from, ...extras }) =>
+      Object.keys(extras).length
+        ? [name, targetSec, extras]
+        : [name, targetSec]
+    ),
+  ...(seq.breaks?.enabled ? { b: seq.breaks } : {}),
+  ...(seq.overtime && seq.overtime.mode !== "count"
+    ? { o: seq.overtime }
+    : {}),
+});
+
+// base64url of the UTF-8 bytes, so names in any script survive the URL
+const toBase64Url = (text: string) => {
+  let binary = "";
+  new TextEncoder()
+    .encode(text)
+    .forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (c) => c.charCodeAt(0))
   );
+};
 
-  const isSkipped = (rIdx: number, i: number) =>
-    (rounds[rIdx]?.[i]?.status ?? "incomplete") === "skipped";
+/** Link that opens `seq`, carrying the sessions it plays as blocks along */
+const shareLink = (seq: SavedSequence, library: SavedSequence[]) => {
+  const blocks = library.filter((s) => usesSession(seq, s.id, library));
+  const payload = {
+    v: SHARE_LINK_VERSION,
+    s: [packSession(seq, false), ...blocks.map((s) => packSession(s, true))],
+  };
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${SHARE_HASH_PREFIX}${toBase64Url(
+    JSON.stringify(payload)
+  )}`;
+};
 
-  const roundTargetSec = (rIdx: number) =>
-    chain.reduce(
-      (sum, id, i) => sum + (isSkipped(rIdx, i) ? 0 : byId(id).targetSec),
-      0
+/** Unpack a share link's payload, shared session first, then its blocks */
+const parseShareLink = (payload: string): SavedSequence[] => {
+  let data: any;
+  try {
+    data = JSON.parse(fromBase64Url(decodeURIComponent(payload)));
+  } catch {
+    throw new Error("The link is damaged or cut short.");
+  }
+  if (!data || !Array.isArray(data.s) || data.s.length === 0)
+    throw new Error("The link doesn't contain a session.");
+  if (typeof data.v !== "number" || data.v > SHARE_LINK_VERSION)
+    throw new Error(
+      `The link uses format version ${data.v}, which this app can't read.`
     );
-
-  const sessionTargetSec = () =>
-    Array.from({ length: roundsCount }).reduce(
-      (s: number, _: unknown, r: number) => s + roundTargetSec(r),
-      0
+  return data.s.map((packed: any, k: number) => {
+    const tasks = (Array.isArray(packed?.t) ? packed.t : []).map(
+      (entry: any) => {
+        const [name, targetSec, extras] = Array.isArray(entry) ? entry : [];
+        return {
+          ...(extras && typeof extras === "object" ? extras : {}),
+          id: generateId(),
+          name,
+          targetSec,
+        };
+      }
     );
+    return parseImportedSession(
+      {
+        id: packed?.i,
+        name: packed?.n,
+        tasks,
+        chain: tasks.map((t: Task) => t.id),
+        roundsCount: packed?.r,
+        breaks: packed?.b,
+        overtime: packed?.o,
+      },
+      k === 0 ? "The shared session" : `Block ${k}`
+    );
+  });
+};
 
-  const [focusMode, setFocusMode] = useState(false);
-  const timerAreaRef = useRef<HTMLDivElement | null>(null);
-  const justFinishedEditingRef = useRef(false);
-  const handleTimerAreaClick: React.MouseEventHandler<HTMLDivElement> = (e) => {
-    const interactiveTags = new Set([
-      "BUTTON",
-      "A",
-      "INPUT",
-      "TEXTAREA",
-      "SELECT",
-      "LABEL",
-      "OPTION",
-    ]);
-    let node = e.target as HTMLElement | null;
-    while (node && node !== timerAreaRef.current) {
-      if (
-        interactiveTags.has(node.tagName) ||
-        (node as any).dataset?.nocapture === "true"
-      )
-        return;
-      node = node.parentElement;
-    }
-    // Don't toggle focus mode if we just finished editing
-    if (justFinishedEditingRef.current) {
-      justFinishedEditingRef.current = false;
-      return;
-    }
-    playFocusToggle();
-    setFocusMode((f) => !f);
-  };
+/** ------------ QR codes ------------ */
+/**
+ * A small QR encoder (byte mode, versions 1–40) so share links can be scanned
+ * from the screen without sending them to any service. It follows ISO/IEC
+ * 18004: data and Reed–Solomon codewords are interleaved into the symbol, and
+ * the mask with the lowest penalty score is kept.
+ */
+type QrLevel = "L" | "M" | "Q" | "H";
+type QrSymbol = {
+  version: number;
+  level: QrLevel;
+  size: number;
+  modules: boolean[][]; // [row][column], true for dark
+};
 
-  /** ------- Position ------- */
-  const [currentRoundIndex, setCurrentRoundIndex] = useState(0);
-  const [currentTaskIndex, setCurrentTaskIndex] = useState(0);
+// Weakest first; a level is only raised while the data still fits
+const QR_LEVELS: QrLevel[] = ["L", "M", "Q", "H"];
+const QR_LEVEL_LABELS: Record<QrLevel, string> = {
+  L: "low (7%)",
+  M: "medium (15%)",
+  Q: "quartile (25%)",
+  H: "high (30%)",
+};
+const QR_FORMAT_BITS: Record<QrLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+// Per level, indexed by version (index 0 unused)
+const QR_ECC_PER_BLOCK: Record<QrLevel, number[]> = {
+  L: [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  M: [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  Q: [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  H: [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+};
+const QR_ECC_BLOCKS: Record<QrLevel, number[]> = {
+  L: [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+    17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77,
+    81,
+  ],
+};
 
-  /** ------- Timer / Run state ------- */
-  type RunState = "idle" | "running" | "paused";
-  const [runState, setRunState] = useState<RunState>("idle");
-  const [isSessionComplete, setIsSessionComplete] = useState(false);
-  const taskStartMs = useRef<number | null>(null);
-  const pausedOffsetMs = useRef<number>(0);
+/** Modules left for data and error correction once the patterns are drawn */
+const qrRawModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
 
-  const [showSettings, setShowSettings] = useState(false);
-  const [showSaveModal, setShowSaveModal] = useState(false);
-  const [showLoadModal, setShowLoadModal] = useState(false);
-  const [showConfirmModal, setShowConfirmModal] = useState(false);
-  const [sequenceName, setSequenceName] = useState("");
-  const [lastSavedSequenceId, setLastSavedSequenceId] = useState<string | null>(
-    null
-  );
-  const [savedSequences, setSavedSequences] = useState<SavedSequence[]>([]);
-  const [showSavedAlert, setShowSavedAlert] = useState(false);
-  const [editingSequenceId, setEditingSequenceId] = useState<string | null>(
-    null
-  );
+const qrDataCodewords = (version: number, level: QrLevel) =>
+  Math.floor(qrRawModules(version) / 8) -
+  QR_ECC_PER_BLOCK[level][version] * QR_ECC_BLOCKS[level][version];
 
-  // Load saved sequences from localStorage on mount
-  useEffect(() => {
-    const saved = localStorage.getItem("weaselTimerSequences");
-    if (saved) {
-      try {
-        setSavedSequences(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to load sequences:", e);
-      }
-    }
-  }, []);
+/** Bits a byte-mode segment of `length` bytes takes in this version */
+const qrSegmentBits = (version: number, length: number) =>
+  4 + (version < 10 ? 8 : 16) + length * 8;
 
-  // Save sequences to localStorage
-  const saveSequencesToStorage = (sequences: SavedSequence[]) => {
-    localStorage.setItem("weaselTimerSequences", JSON.stringify(sequences));
-    setSavedSequences(sequences);
-  };
+/** Largest payload any QR code holds: version 40 at the lowest level */
+const QR_MAX_BYTES = qrDataCodewords(40, "L") - 3;
 
-  // Draft copy for Save Sequence modal (names, times, and order)
-  const [draftChain, setDraftChain] = useState<string[]>([]);
-  const [draftById, setDraftById] = useState<
-    Record<string, { name: string; targetSec: number }>
-  >({});
-  const [draftRoundsCount, setDraftRoundsCount] = useState(3);
-  const [editingModalTask, setEditingModalTask] = useState<{
-    id: string;
-    field: "name" | "time";
-  } | null>(null);
-  const modalDragFrom = useRef<number | null>(null);
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
 
-  // Seed modal drafts when it opens
-  useEffect(() => {
-    if (showSaveModal) {
-      setDraftChain([...chain]);
-      const next: Record<string, { name: string; targetSec: number }> = {};
-      tasks.forEach(
-        (t) => (next[t.id] = { name: t.name, targetSec: t.targetSec })
-      );
-      setDraftById(next);
-      setDraftRoundsCount(roundsCount);
-      setEditingModalTask(null);
+const reedSolomonDivisor = (degree: number) => {
+  const result: number[] = [];
+  for (let i = 0; i < degree - 1; i++) result.push(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
     }
-  }, [showSaveModal, chain, tasks, roundsCount]);
-  const [autocontinue, setAutocontinue] = useState(false);
-  const [rollover, setRollover] = useState(false);
-  const [rightArrowAction, setRightArrowAction] = useState<"skip" | "done">(
-    "skip"
-  );
-  const autoLatchRef = useRef(false);
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
 
-  const [rolloverOffsetSec, setRolloverOffsetSec] = useState(0);
-  const [showRolloverToast, setShowRolloverToast] = useState<number | null>(
-    null
-  );
-  const [weaselJump, setWeaselJump] = useState(false);
-  const nextRolloverRef = useRef(0);
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  data.forEach((b) => {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= gfMultiply(coef, factor)));
+  });
+  return result;
+};
 
-  const [, setTick] = useState(0);
-  useEffect(() => {
-    const id = setInterval(() => setTick((t) => t + 1), 25);
-    return () => clearInterval(id);
-  }, []);
+/** Split data into blocks, add each block's ECC and interleave the lot */
+const qrInterleave = (data: number[], version: number, level: QrLevel) => {
+  const numBlocks = QR_ECC_BLOCKS[level][version];
+  const eccLen = QR_ECC_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(qrRawModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(eccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(
+      k,
+      k + shortBlockLen - eccLen + (i < numShortBlocks ? 0 : 1)
+    );
+    k += dat.length;
+    const ecc = reedSolomonRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++)
+    blocks.forEach((block, j) => {
+      // Short blocks carry a placeholder where long ones have a data byte
+      if (i !== shortBlockLen - eccLen || j >= numShortBlocks)
+        result.push(block[i]);
+    });
+  return result;
+};
 
-  /** ------- Derived current task/time ------- */
-  const currentTaskId = chain[currentTaskIndex];
-  const currentTask = byId(currentTaskId);
-  const effectiveTargetSec = currentTask.targetSec + rolloverOffsetSec;
+/** Data codewords for a byte-mode payload, padded out to the version */
+const qrCodewords = (bytes: Uint8Array, version: number, level: QrLevel) => {
+  const bits: number[] = [];
+  const put = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  put(0b0100, 4);
+  put(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((b) => put(b, 8));
+  const capacity = qrDataCodewords(version, level) * 8;
+  put(0, Math.min(4, capacity - bits.length));
+  put(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11)
+    put(pad, 8);
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8)
+    codewords.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+  return codewords;
+};
 
-  const nowMs = Date.now();
-  const elapsedMs =
-    runState === "running"
-      ? taskStartMs.current
-        ? nowMs - taskStartMs.current
-        : 0
-      : pausedOffsetMs.current;
-  const elapsedSec = Math.floor(elapsedMs / 1000);
-  const remainingTaskSec = Math.max(0, effectiveTargetSec - elapsedSec);
+const qrAlignmentPositions = (version: number) => {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step =
+    Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step)
+    result.splice(1, 0, pos);
+  return result;
+};
 
-  /** ------- Overtime ------- */
-  const isOvertime = elapsedSec > effectiveTargetSec;
-  const [overtimeBlink, setOvertimeBlink] = useState(true);
-  const [hasRang, setHasRang] = useState(false);
+const QR_MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
 
-  useEffect(() => {
-    if (!isOvertime) {
-      setOvertimeBlink(true);
-      return;
+/** Penalty rules from the standard; the lowest-scoring mask is kept */
+const qrPenalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let score = 0;
+  const lines: string[] = [];
+  for (let i = 0; i < size; i++) {
+    let row = "";
+    let col = "";
+    for (let j = 0; j < size; j++) {
+      row += modules[i][j] ? "1" : "0";
+      col += modules[j][i] ? "1" : "0";
     }
-    const id = window.setInterval(() => setOvertimeBlink((b) => !b), 500);
-    return () => window.clearInterval(id);
-  }, [isOvertime]);
-
-  useEffect(() => {
-    if (runState === "running" && remainingTaskSec === 0 && !hasRang) {
-      ring();
-      setHasRang(true);
+    lines.push(row, col);
+  }
+  lines.forEach((line) => {
+    (line.match(/0{5,}|1{5,}/g) || []).forEach(
+      (run) => (score += run.length - 2)
+    );
+    score += 40 * (line.match(/(?=10111010000|00001011101)/g) || []).length;
+  });
+  let dark = 0;
+  for (let y = 0; y < size; y++)
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (
+        x < size - 1 &&
+        y < size - 1 &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      )
+        score += 3;
     }
-  }, [remainingTaskSec, runState, hasRang]);
-
-  useEffect(() => {
-    setHasRang(false);
-    autoLatchRef.current = false;
-  }, [currentTaskIndex, currentRoundIndex]);
-
-  useEffect(() => {
-    setRolloverOffsetSec(nextRolloverRef.current);
-  }, [currentTaskIndex, currentRoundIndex]);
-
-  const roundElapsedActual =
-    rounds[currentRoundIndex]?.reduce((s, t) => s + (t?.actualSec || 0), 0) || 0;
+  const total = size * size;
+  score += 10 * (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1);
+  return score;
+};
 
-  const curRoundTarget = useMemo(
-    () => roundTargetSec(currentRoundIndex),
-    [rounds, tasks, chain, currentRoundIndex]
+/** Draw the symbol for `codewords` with one mask applied */
+const qrDraw = (
+  codewords: number[],
+  version: number,
+  level: QrLevel,
+  mask: number
+) => {
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () =>
+    Array.from({ length: size }, () => false)
   );
-  const fullSessionTarget = useMemo(
-    () => sessionTargetSec(),
-    [rounds, tasks, chain, roundsCount]
+  const reserved = Array.from({ length: size }, () =>
+    Array.from({ length: size }, () => false)
   );
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
 
-  const roundRemainingSec = Math.max(
-    0,
-    curRoundTarget - (roundElapsedActual + elapsedSec)
-  );
-  const sessionElapsedActual =
-    rounds
-      .slice(0, currentRoundIndex)
-      .flat()
-      .reduce((s, t) => s + (t.actualSec || 0), 0) || 0;
-  const sessionRemainingSec = Math.max(
-    0,
-    fullSessionTarget - (sessionElapsedActual + roundElapsedActual + elapsedSec)
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++)
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size)
+          set(x, y, dist !== 2 && dist !== 4);
+      }
+  });
+  const align = qrAlignmentPositions(version);
+  align.forEach((cy, i) =>
+    align.forEach((cx, j) => {
+      // Skip the three that would overlap the finder patterns
+      const last = align.length - 1;
+      if (
+        (i === 0 && j === 0) ||
+        (i === 0 && j === last) ||
+        (i === last && j === 0)
+      )
+        return;
+      for (let dy = -2; dy <= 2; dy++)
+        for (let dx = -2; dx <= 2; dx++)
+          set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    })
   );
 
-  type LightColor = "gray" | "yellow" | "red" | "orange" | "green";
+  // Format information: level and mask, BCH-protected, drawn twice
+  const formatData = (QR_FORMAT_BITS[level] << 3) | mask;
+  let rem = formatData;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const format = ((formatData << 10) | rem) ^ 0x5412;
+  const formatBit = (i: number) => ((format >>> i) & 1) !== 0;
+  for (let i = 0; i <= 5; i++) set(8, i, formatBit(i));
+  set(8, 7, formatBit(6));
+  set(8, 8, formatBit(7));
+  set(7, 8, formatBit(8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, formatBit(i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, formatBit(i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, formatBit(i));
+  set(8, size - 8, true);
+
+  // Version information, from version 7 up
+  if (version >= 7) {
+    let vrem = version;
+    for (let i = 0; i < 12; i++) vrem = (vrem << 1) ^ ((vrem >>> 11) * 0x1f25);
+    const bits = (version << 12) | vrem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
 
-  const taskLightColor = (i: number): LightColor => {
-    const res = rounds[currentRoundIndex]?.[i];
-    const target = byId(chain[i]).targetSec;
-    if (res?.status === "skipped") return "gray";
-    if (i < currentTaskIndex) {
-      if (!res || res.status === "incomplete") return "gray";
-      if (res.status === "complete_over") return "orange";
-      return "green";
-    }
-    if (i === currentTaskIndex) {
-      if (runState === "idle") return "gray";
-      return elapsedSec > target ? "red" : "yellow";
+  // Codewords zigzag up and down in two-module columns from the right
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++)
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (reserved[y][x] || bit >= codewords.length * 8) continue;
+        modules[y][x] = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) !== 0;
+        bit++;
+      }
+  }
+
+  const invert = QR_MASKS[mask];
+  for (let y = 0; y < size; y++)
+    for (let x = 0; x < size; x++)
+      if (!reserved[y][x] && invert(x, y)) modules[y][x] = !modules[y][x];
+  return modules;
+};
+
+/**
+ * Encode `text` in the smallest version that holds it, then raise the error
+ * correction as far as that version allows. Throws a readable error when the
+ * text is too long for any QR code.
+ */
+const encodeQr = (text: string): QrSymbol => {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (
+    version <= 40 &&
+    qrSegmentBits(version, bytes.length) > qrDataCodewords(version, "L") * 8
+  )
+    version++;
+  if (version > 40)
+    throw new Error(
+      `It needs ${bytes.length} bytes, and a QR code holds at most ${QR_MAX_BYTES}.`
+    );
+  let level: QrLevel = "L";
+  QR_LEVELS.forEach((next) => {
+    if (
+      qrSegmentBits(version, bytes.length) <= qrDataCodewords(version, next) * 8
+    )
+      level = next;
+  });
+  const codewords = qrInterleave(
+    qrCodewords(bytes, version, level),
+    version,
+    level
+  );
+  let best: boolean[][] = [];
+  let bestScore = Infinity;
+  QR_MASKS.forEach((_, mask) => {
+    const modules = qrDraw(codewords, version, level, mask);
+    const score = qrPenalty(modules);
+    if (score < bestScore) {
+      best = modules;
+      bestScore = score;
     }
-    return "gray";
-  };
+  });
+  return { version, level, size: best.length, modules: best };
+};
 
-  const roundLightColor = (rIdx: number): LightColor => {
-    if (rIdx > currentRoundIndex) return "gray";
-    const targetForRound = roundTargetSec(rIdx);
+/** A QR symbol as crisp SVG, with the standard four-module quiet zone */
+const QrCode = ({ symbol, title }: { symbol: QrSymbol; title: string }) => {
+  const quiet = 4;
+  const extent = symbol.size + quiet * 2;
+  let path = "";
+  symbol.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) path += `M${x + quiet} ${y + quiet}h1v1h-1z`;
+    })
+  );
+  return (
+    <svg
+      className="qr-code"
+      viewBox={`0 0 ${extent} ${extent}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={title}
+    >
+      <rect width={extent} height={extent} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
 
-    // Check if this round is complete (past rounds OR current round with all tasks done)
-    if (rIdx <= currentRoundIndex) {
-      const row = rounds[rIdx] ?? [];
-      const anyIncomplete = row.some((t) => t.status === "incomplete");
+/** ------------ Results export (CSV / Markdown) ------------ */
+type ResultRow = {
+  round: number;
+  task: string;
+  targetSec: number | null; // null for open-ended tasks
+  actualSec: number | null;
+  status: TaskStatus;
+  deltaSec: number | null; // actual minus target; null when not completed
+  targetReps: number | null; // rep tasks only
+  reps: number | null;
+  checklist: string | null; // "ticked/total", for tasks with a checklist
+  category: string | null;
+  overtime: string | null; // how an overrun was handled, e.g. "auto-skipped"
+};
 
-      // If all tasks in this round are complete, color based on performance
-      if (!anyIncomplete) {
-        const actual = row.reduce((s, t) => s + (t.actualSec ?? 0), 0);
-        return actual > targetForRound ? "orange" : "green";
-      }
-    }
+/** Ticked checklist items out of the task's total, e.g. "2/5" */
+const checklistTally = (task: Task, res: TaskResult) => {
+  const items = task.checklist ?? [];
+  if (!items.length) return null;
+  const checked = res.checked ?? [];
+  const ticked = items.filter((item) => checked.indexOf(item.id) !== -1);
+  return `${ticked.length}/${items.length}`;
+};
 
-    // For incomplete current round
-    if (rIdx === currentRoundIndex) {
-      if (runState === "idle") return "gray";
-      const spent = roundElapsedActual + elapsedSec;
-      return spent > targetForRound ? "red" : "yellow";
-    }
+/** Flatten a rounds matrix into one row per round × task */
+const resultRows = (tasks: Task[], rounds: TaskResult[][]): ResultRow[] => {
+  const rows: ResultRow[] = [];
+  rounds.forEach((row, rIdx) =>
+    row.forEach((res, i) => {
+      const task = tasks[i];
+      if (!task || !taskInRound(task, rIdx, rounds.length)) return;
+      const target = res.targetSec ?? task.targetSec;
+      const completed =
+        res.status !== "incomplete" &&
+        res.status !== "skipped" &&
+        res.actualSec !== null &&
+        !isOpenEnded(task);
+      rows.push({
+        round: rIdx + 1,
+        task: task.name,
+        targetSec: isOpenEnded(task) ? null : target,
+        actualSec: res.actualSec,
+        status: res.status,
+        deltaSec: completed ? (res.actualSec as number) - target : null,
+        targetReps: isRepTask(task)
+          ? task.targetReps ?? DEFAULT_TARGET_REPS
+          : null,
+        reps: res.reps ?? null,
+        checklist: checklistTally(task, res),
+        category: task.category ?? null,
+        overtime: overtimeNote(res),
+      });
+    })
+  );
+  return rows;
+};
 
-    return "gray";
-  };
+/**
+ * Text that opens like a formula gets a leading ' so spreadsheets show it
+ * rather than evaluate it; numbers (negative deltas included) pass through
+ */
+const csvCell = (value: string | number | null) => {
+  let text = value === null ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text))
+    text = `'${text}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
 
-  const [pulseRound, setPulseRound] = useState(false);
-  const [pulseTotal, setPulseTotal] = useState(false);
-  const triggerRoundPulse = () => {
-    setPulseRound(false);
-    requestAnimationFrame(() => setPulseRound(true));
-  };
-  const triggerTotalPulse = () => {
-    setPulseTotal(false);
-    requestAnimationFrame(() => setPulseTotal(true));
-  };
+const resultsToCsv = (rows: ResultRow[]) =>
+  [
+    "round,task,target_sec,actual_sec,status,delta_sec,target_reps,reps,checklist,category,overtime",
+    ...rows.map((r) =>
+      [
+        r.round,
+        r.task,
+        r.targetSec,
+        r.actualSec,
+        r.status,
+        r.deltaSec,
+        r.targetReps,
+        r.reps,
+        r.checklist,
+        r.category,
+        r.overtime,
+      ]
+        .map(csvCell)
+        .join(",")
+    ),
+  ].join("\n") + "\n";
+
+const fmtDelta = (sec: number) => (sec < 0 ? "-" : "+") + fmt(Math.abs(sec));
+
+/** Planned and actual time summed per category, in first-seen order */
+const categoryTotals = (rows: ResultRow[]) => {
+  const totals = new Map<
+    string,
+    { category: string; tasks: number; targetSec: number; actualSec: number }
+  >();
+  rows.forEach((r) => {
+    const category = r.category ?? UNCATEGORIZED;
+    const entry = totals.get(category) || {
+      category,
+      tasks: 0,
+      targetSec: 0,
+      actualSec: 0,
+    };
+    entry.tasks++;
+    entry.targetSec += r.targetSec ?? 0;
+    entry.actualSec += r.actualSec ?? 0;
+    totals.set(category, entry);
+  });
+  return Array.from(totals.values());
+};
 
-  const [showRoundToast, setShowRoundToast] = useState(false);
-  const [roundToastText, setRoundToastText] = useState("Round complete!");
-  const triggerRoundToast = (text?: string) => {
-    setRoundToastText(text ?? "Round complete!");
-    setShowRoundToast(false);
-    requestAnimationFrame(() => setShowRoundToast(true));
-  };
+const resultsToMarkdown = (rows: ResultRow[]) => {
+  const mdCell = (text: string) => text.replace(/\|/g, "\\|");
+  const byCategory = rows.some((r) => r.category !== null)
+    ? [
+        "",
+        "| Category | Tasks | Target | Actual |",
+        "| --- | ---: | ---: | ---: |",
+        ...categoryTotals(rows).map(
+          (c) =>
+            `| ${mdCell(c.category)} | ${c.tasks} | ${fmt(c.targetSec)} | ${fmt(
+              c.actualSec
+            )} |`
+        ),
+      ]
+    : [];
+  return (
+    [
+      "| Round | Task | Target | Actual | Status | Delta |",
+      "| ---: | --- | ---: | ---: | --- | ---: |",
+      ...rows.map(
+        (r) =>
+          `| ${r.round} | ${mdCell(r.task)} | ${
+            r.targetReps !== null
+              ? `${r.targetReps} reps`
+              : r.targetSec === null
+              ? "open"
+              : fmt(r.targetSec)
+          } | ${r.actualSec === null ? "–" : fmt(r.actualSec)}${
+            r.reps !== null ? ` (${r.reps} reps)` : ""
+          } | ${STATUS_LABELS[r.status]}${
+            r.checklist !== null ? ` · ${r.checklist} checked` : ""
+          }${r.overtime !== null ? ` · ${r.overtime}` : ""} | ${
+            r.deltaSec === null ? "–" : fmtDelta(r.deltaSec)
+          } |`
+      ),
+      ...byCategory,
+    ].join("\n") + "\n"
+  );
+};
 
-  const startOrResume = () => {
-    if (runState === "running") return;
-    setRunState("running");
-    const alreadyElapsed = pausedOffsetMs.current;
-    taskStartMs.current = Date.now() - alreadyElapsed;
-    playStart();
-  };
+/** Copy text to the clipboard, resolving false when the browser refuses */
+const copyText = async (text: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
 
-  const pauseAll = () => {
-    if (runState !== "running") {
-      setRunState("paused");
-      return;
+/** ------------ Keyboard shortcuts ------------ */
+type ShortcutAction =
+  | "playPause"
+  | "prev"
+  | "next"
+  | "done"
+  | "skip"
+  | "restart"
+  | "repUp"
+  | "repDown"
+  | "focus"
+  | "settings"
+  | "help";
+type Keymap = Record<ShortcutAction, string>;
+
+const KEYMAP_KEY = "weaselTimerKeymap";
+const DEFAULT_KEYMAP: Keymap = {
+  playPause: " ",
+  prev: "ArrowLeft",
+  next: "ArrowRight",
+  done: "d",
+  skip: "s",
+  restart: "r",
+  repUp: "ArrowUp",
+  repDown: "ArrowDown",
+  focus: "f",
+  settings: ",",
+  help: "?",
+};
+const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: "playPause", label: "Play / pause" },
+  { action: "prev", label: "Previous task" },
+  { action: "next", label: "Next (skip or done)" },
+  { action: "done", label: "Mark done" },
+  { action: "skip", label: "Skip task" },
+  { action: "restart", label: "Restart task" },
+  { action: "repUp", label: "Add a rep" },
+  { action: "repDown", label: "Remove a rep" },
+  { action: "focus", label: "Focus mode" },
+  { action: "settings", label: "Open settings" },
+  { action: "help", label: "Shortcut cheat-sheet" },
+];
+
+const loadKeymap = (): Keymap => {
+  try {
+    const raw = localStorage.getItem(KEYMAP_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw);
+      const keymap: Keymap = { ...DEFAULT_KEYMAP, ...saved };
+      // Defaults added since the keymap was saved give way to its bindings
+      SHORTCUT_ACTIONS.forEach(({ action }) => {
+        if (saved.hasOwnProperty(action) || !keymap[action]) return;
+        const taken = SHORTCUT_ACTIONS.some(
+          ({ action: other }) =>
+            other !== action && keymap[other] === keymap[action]
+        );
+        if (taken) keymap[action] = "";
+      });
+      return keymap;
     }
-    setRunState("paused");
-    pausedOffsetMs.current = elapsedMs;
-    taskStartMs.current = null;
-    playPause();
-  };
+  } catch (e) {
+    console.error("Failed to load keymap:", e);
+  }
+  return { ...DEFAULT_KEYMAP };
+};
 
-  const restartCurrent = () => {
-    playRestartSound();
-    pausedOffsetMs.current = 0;
-    taskStartMs.current = Date.now();
-    setRunState("running");
-    setRounds((prev) => {
-      const copy = prev.map((r) => r.map((t) => ({ ...t })));
-      copy[currentRoundIndex][currentTaskIndex] = {
-        status: "incomplete" as TaskStatus,
-        actualSec: null,
-      };
-      return copy;
-    });
-    setHasRang(false);
-    autoLatchRef.current = false;
-  };
+/** Keys that only ever modify another key, so can't be bound on their own */
+const MODIFIER_KEYS = ["Shift", "Control", "Alt", "AltGraph", "Meta"];
+
+/** Key identity used for bindings: single characters are case-insensitive */
+const normalizeKey = (key: string) =>
+  key.length === 1 ? key.toLowerCase() : key;
+
+const KEY_LABELS: Record<string, string> = {
+  " ": "Space",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Enter: "Enter",
+  Backspace: "⌫",
+};
+const keyLabel = (key: string) =>
+  !key ? "—" : KEY_LABELS[key] || (key.length === 1 ? key.toUpperCase() : key);
 
-  const completeCurrentTask = (actualSec: number) => {
-    const target = currentTask.targetSec;
-    const clamped = Math.max(0, Math.floor(actualSec));
-    const status: TaskStatus =
-      clamped < target
-        ? "complete_under"
-        : clamped === target
-        ? "complete_at"
-        : "complete_over";
-    setRounds((prev) => {
-      const copy = prev.map((r) => r.map((t) => ({ ...t })));
-      copy[currentRoundIndex][currentTaskIndex] = {
-        status,
-        actualSec: clamped,
-      };
-      return copy;
-    });
-  };
+/** Whether keyboard focus is somewhere the user is typing */
+const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el || !el.tagName) return false;
+  return (
+    el.tagName === "INPUT" ||
+    el.tagName === "TEXTAREA" ||
+    el.tagName === "SELECT" ||
+    el.isContentEditable
+  );
+};
 
-  const markSkipped = (rIdx: number, tIdx: number) => {
-    setRounds((prev) => {
-      const copy = prev.map((r) => r.map((t) => ({ ...t })));
-      copy[rIdx][tIdx] = { status: "skipped", actualSec: 0 };
-      return copy;
-    });
-  };
+/** ------------ Background timekeeping ------------ */
+/*
+ * Timers on the page are throttled hard in hidden tabs, so deadlines are
+ * handed to a dedicated worker instead. It sleeps until each requested
+ * wall-clock time and posts a wake-up, which re-renders the app so the
+ * ring/autocontinue effects run on time.
+ */
+const TIMER_WORKER_SOURCE = `
+let timers = [];
+self.onmessage = (e) => {
+  timers.forEach(clearTimeout);
+  timers = (e.data.times || []).map((at) =>
+    setTimeout(() => self.postMessage({ at }), Math.max(0, at - Date.now()))
+  );
+};
+`;
 
-  const goToTask = (roundIdx: number, taskIdx: number) => {
-    const clampedRound = clamp(roundIdx, 0, Math.max(0, roundsCount - 1));
-    const clampedTask = clamp(taskIdx, 0, Math.max(0, chain.length - 1));
-    setCurrentRoundIndex(clampedRound);
-    setCurrentTaskIndex(clampedTask);
-    pausedOffsetMs.current = 0;
-    taskStartMs.current = Date.now();
-    setRunState("running");
-    setHasRang(false);
-    autoLatchRef.current = false;
-  };
+type WakeScheduler = {
+  schedule: (times: number[]) => void;
+  dispose: () => void;
+};
 
-  const onNext = () => {
-    chime();
-    const lastTaskIdx = chain.length - 1;
-    const lastRoundIdx = roundsCount - 1;
+/** Worker-backed wake-ups, falling back to page timers where workers fail */
+const createWakeScheduler = (onWake: () => void): WakeScheduler => {
+  try {
+    const url = URL.createObjectURL(
+      new Blob([TIMER_WORKER_SOURCE], { type: "text/javascript" })
+    );
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    worker.onmessage = onWake;
+    return {
+      schedule: (times) => worker.postMessage({ times }),
+      dispose: () => worker.terminate(),
+    };
+  } catch {
+    let timers: number[] = [];
+    const clear = () => timers.forEach((id) => window.clearTimeout(id));
+    return {
+      schedule: (times) => {
+        clear();
+        timers = times.map((at) =>
+          window.setTimeout(onWake, Math.max(0, at - Date.now()))
+        );
+      },
+      dispose: clear,
+    };
+  }
+};
 
-    const savedTime = remainingTaskSec;
-    if (rollover && savedTime > 0 && currentTaskIndex < lastTaskIdx) {
-      nextRolloverRef.current = savedTime;
-      setShowRolloverToast(savedTime);
-    } else {
-      nextRolloverRef.current = 0;
-    }
+// Cues for deadlines that passed longer ago than this (the tab was frozen or
+// asleep) are dropped rather than played late
+const STALE_CUE_MS = 2000;
 
-    completeCurrentTask(elapsedSec);
+/** ------------ System notifications ------------ */
+type NotificationPrefs = { enabled: boolean; overtimeMinutes: number };
+type NotificationAction = "done" | "skip" | "extend";
 
-    if (currentTaskIndex < lastTaskIdx) {
-      goToTask(currentRoundIndex, currentTaskIndex + 1);
-      return;
-    }
-    if (currentRoundIndex < lastRoundIdx) {
-      triggerRoundToast(`Round ${currentRoundIndex + 1} complete!`);
-      goToTask(currentRoundIndex + 1, 0);
-      return;
-    }
-    playSessionComplete();
-    triggerRoundToast("Session complete! 🎉");
-    setRunState("idle");
-    setIsSessionComplete(true);
-  };
+const NOTIFICATION_PREFS_KEY = "weaselTimerNotifications";
+const NOTIFICATION_ACTIONS: { action: NotificationAction; title: string }[] = [
+  { action: "done", title: "Done" },
+  { action: "skip", title: "Skip" },
+  { action: "extend", title: "+1 min" },
+];
 
-  const onSkip = () => {
-    playNav();
-    const lastTaskIdx = chain.length - 1;
-    const lastRoundIdx = roundsCount - 1;
-    markSkipped(currentRoundIndex, currentTaskIndex);
-    nextRolloverRef.current = 0;
-    if (currentTaskIndex < lastTaskIdx) {
-      goToTask(currentRoundIndex, currentTaskIndex + 1);
-      return;
-    }
-    if (currentRoundIndex < lastRoundIdx) {
-      triggerRoundToast(`Round ${currentRoundIndex + 1} complete!`);
-      goToTask(currentRoundIndex + 1, 0);
-      return;
+const loadNotificationPrefs = (): NotificationPrefs => {
+  const defaults: NotificationPrefs = { enabled: false, overtimeMinutes: 5 };
+  try {
+    const saved = localStorage.getItem(NOTIFICATION_PREFS_KEY);
+    if (saved) return { ...defaults, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to load notification settings:", e);
+  }
+  return defaults;
+};
+
+const notificationsSupported = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+/** Action buttons need a service worker; without one we show plain notices */
+const registerNotificationWorker = (): Promise<ServiceWorkerRegistration | null> =>
+  "serviceWorker" in navigator
+    ? navigator.serviceWorker
+        .register("/notification-sw.js")
+        .catch(() => null)
+    : Promise.resolve(null);
+
+const showSystemNotification = (
+  registration: ServiceWorkerRegistration | null,
+  title: string,
+  body: string,
+  withActions: boolean
+) => {
+  if (!notificationsSupported() || Notification.permission !== "granted")
+    return;
+  const options: NotificationOptions & {
+    actions?: { action: string; title: string }[];
+  } = { body, icon: "/weasel-icon.png", tag: "weasel-timer" };
+  try {
+    if (registration) {
+      if (withActions) options.actions = NOTIFICATION_ACTIONS;
+      registration.showNotification(title, options);
+    } else {
+      const n = new Notification(title, options);
+      n.onclick = () => {
+        window.focus();
+        n.close();
+      };
     }
-    playSessionComplete();
-    triggerRoundToast("Session complete! 🎉");
-    setRunState("idle");
-    setIsSessionComplete(true);
-  };
+  } catch {
+    /* no-op */
+  }
+};
 
-  const onPrev = () => {
-    playNav();
-    const lastTaskIdx = chain.length - 1;
-    nextRolloverRef.current = 0;
-    if (currentTaskIndex > 0) {
-      const prevIdx = currentTaskIndex - 1;
-      setRounds((prev) => {
-        const copy = prev.map((r) => r.map((t) => ({ ...t })));
-        copy[currentRoundIndex][prevIdx] = {
-          status: "incomplete" as TaskStatus,
-          actualSec: null,
+/** ------------ Statistics ------------ */
+type TaskStats = {
+  name: string;
+  runs: number; // results that were completed (any completion status)
+  avgActualSec: number;
+  avgTargetSec: number;
+  under: number;
+  at: number;
+  over: number;
+  skipped: number;
+};
+type CategoryStats = {
+  category: string;
+  color?: string;
+  actualSec: number;
+  runs: number;
+};
+type SessionStats = {
+  totalSec: number;
+  completedSessions: number;
+  daily: { label: string; sec: number }[];
+  weekly: { label: string; sec: number }[];
+  perTask: TaskStats[];
+  perCategory: CategoryStats[]; // empty when no task had a category
+  longestStreak: number;
+  currentStreak: number;
+};
+
+/** Local midnight of the day containing `ms`, offset by whole days */
+const dayStart = (ms: number, offsetDays = 0) => {
+  const d = new Date(ms);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + offsetDays).getTime();
+};
+/** Local midnight of the Monday starting the week containing `ms` */
+const weekStart = (ms: number) => {
+  const d = new Date(ms);
+  return dayStart(ms, -((d.getDay() + 6) % 7));
+};
+const shortDate = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getMonth() + 1}/${d.getDate()}`;
+};
+
+const computeStats = (history: SessionRecord[], now: number): SessionStats => {
+  const byDay = new Map<number, number>();
+  const byWeek = new Map<number, number>();
+  const completedDays = new Set<number>();
+  const byName = new Map<
+    string,
+    TaskStats & { actualSum: number; targetSum: number }
+  >();
+  const byCategory = new Map<string, CategoryStats>();
+  let anyCategory = false;
+
+  history.forEach((record) => {
+    const sec = recordActualSec(record);
+    const day = dayStart(record.startedAt);
+    const week = weekStart(record.startedAt);
+    byDay.set(day, (byDay.get(day) || 0) + sec);
+    byWeek.set(week, (byWeek.get(week) || 0) + sec);
+    if (record.completed) completedDays.add(day);
+
+    record.rounds.forEach((row) =>
+      row.forEach((res, i) => {
+        const task = record.tasks[i];
+        if (!task || res.status === "incomplete") return;
+        const entry = byName.get(task.name) || {
+          name: task.name,
+          runs: 0,
+          avgActualSec: 0,
+          avgTargetSec: 0,
+          under: 0,
+          at: 0,
+          over: 0,
+          skipped: 0,
+          actualSum: 0,
+          targetSum: 0,
         };
-        return copy;
-      });
-      goToTask(currentRoundIndex, prevIdx);
-      return;
-    }
-    if (currentTaskIndex === 0 && currentRoundIndex > 0) {
-      const prevRound = currentRoundIndex - 1;
-      setRounds((prev) => {
-        const copy = prev.map((r) => r.map((t) => ({ ...t })));
-        copy[prevRound][lastTaskIdx] = {
-          status: "incomplete" as TaskStatus,
-          actualSec: null,
+        if (res.status === "skipped") {
+          entry.skipped++;
+        } else {
+          entry.runs++;
+          entry.actualSum += res.actualSec || 0;
+          entry.targetSum += plannedSec(task);
+          if (res.status === "complete_under") entry.under++;
+          else if (res.status === "complete_at") entry.at++;
+          else entry.over++;
+        }
+        byName.set(task.name, entry);
+
+        if (res.status === "skipped") return;
+        if (task.category) anyCategory = true;
+        const category = task.category ?? UNCATEGORIZED;
+        const group = byCategory.get(category) || {
+          category,
+          color: task.category ? categoryColor(task.category) : undefined,
+          actualSec: 0,
+          runs: 0,
         };
-        return copy;
-      });
-      goToTask(prevRound, lastTaskIdx);
-      return;
-    }
-    setRounds((prev) => {
-      const copy = prev.map((r) => r.map((t) => ({ ...t })));
-      copy[currentRoundIndex][currentTaskIndex] = {
-        status: "incomplete" as TaskStatus,
-        actualSec: null,
-      };
-      return copy;
-    });
-    pausedOffsetMs.current = 0;
-    taskStartMs.current = Date.now();
-    setRunState("running");
-    setHasRang(false);
-    autoLatchRef.current = false;
+        group.runs++;
+        group.actualSec += res.actualSec || 0;
+        byCategory.set(category, group);
+      })
+    );
+  });
+
+  const today = dayStart(now);
+  const daily = Array.from({ length: 14 }, (_, i) => {
+    const day = dayStart(today, i - 13);
+    return { label: shortDate(day), sec: byDay.get(day) || 0 };
+  });
+  const thisWeek = weekStart(now);
+  const weekly = Array.from({ length: 8 }, (_, i) => {
+    const week = dayStart(thisWeek, (i - 7) * 7);
+    return { label: shortDate(week), sec: byWeek.get(week) || 0 };
+  });
+
+  // Streaks count consecutive local days with at least one completed session
+  const days = Array.from(completedDays).sort((a, b) => a - b);
+  let longestStreak = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && dayStart(days[i - 1], 1) === day ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+  let currentStreak = 0;
+  // Today without a session yet doesn't break a streak that ran to yesterday
+  let cursor = completedDays.has(today) ? today : dayStart(today, -1);
+  while (completedDays.has(cursor)) {
+    currentStreak++;
+    cursor = dayStart(cursor, -1);
+  }
+
+  const perTask: TaskStats[] = [];
+  byName.forEach(({ actualSum, targetSum, ...entry }) =>
+    perTask.push({
+      ...entry,
+      avgActualSec: entry.runs ? actualSum / entry.runs : 0,
+      avgTargetSec: entry.runs ? targetSum / entry.runs : 0,
+    })
+  );
+  perTask.sort((a, b) => b.runs + b.skipped - (a.runs + a.skipped));
+  const perCategory = anyCategory
+    ? Array.from(byCategory.values()).sort((a, b) => b.actualSec - a.actualSec)
+    : [];
+
+  return {
+    totalSec: history.reduce((sum, r) => sum + recordActualSec(r), 0),
+    completedSessions: history.filter((r) => r.completed).length,
+    daily,
+    weekly,
+    perTask,
+    perCategory,
+    longestStreak,
+    currentStreak,
   };
+};
 
-  useEffect(() => {
-    if (
-      !autocontinue ||
-      runState !== "running" ||
-      remainingTaskSec !== 0 ||
-      autoLatchRef.current
-    )
-      return;
-    autoLatchRef.current = true;
-    setRounds((prev) => {
-      const copy = prev.map((r) => r.map((t) => ({ ...t })));
-      copy[currentRoundIndex][currentTaskIndex] = {
-        status: "complete_at",
-        actualSec: byId(chain[currentTaskIndex]).targetSec,
-      };
-      return copy;
-    });
-    chime();
-    nextRolloverRef.current = 0;
-    const lastTaskIdx = chain.length - 1;
-    const lastRoundIdx = roundsCount - 1;
-    if (currentTaskIndex < lastTaskIdx) {
-      goToTask(currentRoundIndex, currentTaskIndex + 1);
-    } else if (currentRoundIndex < lastRoundIdx) {
-      triggerRoundToast(`Round ${currentRoundIndex + 1} complete!`);
-      goToTask(currentRoundIndex + 1, 0);
-    } else {
-      playSessionComplete();
-      triggerRoundToast("Session complete! 🎉");
-      setRunState("idle");
-      setIsSessionComplete(true);
-    }
-  }, [
-    autocontinue,
-    remainingTaskSec,
-    runState,
-    currentTaskIndex,
-    currentRoundIndex,
-    chain,
-    roundsCount,
-    byId,
-  ]);
+const OUTCOME_COLORS = ["green", "yellow", "orange", "gray"];
+const OUTCOME_LABELS = ["under", "on time", "over", "skipped"];
 
-  const [activeTab] = useState<"tasks" | "rounds">("tasks");
-  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
-  const [editingValues, setEditingValues] = useState<EditingValues | null>(
-    null
+/** Simple SVG bar chart of durations */
+const BarChart = ({
+  bars,
+  height = 110,
+}: {
+  bars: { label: string; sec: number }[];
+  height?: number;
+}) => {
+  const barWidth = 22;
+  const gap = 6;
+  const labelHeight = 16;
+  const width = bars.length * (barWidth + gap);
+  const max = Math.max(1, ...bars.map((b) => b.sec));
+  const plotHeight = height - labelHeight;
+
+  return (
+    <svg
+      className="stats-bar-chart"
+      width="100%"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {bars.map((bar, i) => {
+        const h = Math.max(bar.sec > 0 ? 2 : 0, (bar.sec / max) * plotHeight);
+        const x = i * (barWidth + gap) + gap / 2;
+        return (
+          <g key={i}>
+            <rect
+              className="stats-bar-track"
+              x={x}
+              y={0}
+              width={barWidth}
+              height={plotHeight}
+              rx={3}
+            />
+            <rect
+              className="stats-bar"
+              x={x}
+              y={plotHeight - h}
+              width={barWidth}
+              height={h}
+              rx={3}
+            >
+              <title>{`${bar.label}: ${fmt(bar.sec)}`}</title>
+            </rect>
+            <text
+              className="stats-bar-label"
+              x={x + barWidth / 2}
+              y={height - 3}
+              textAnchor="middle"
+            >
+              {bar.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
   );
-  const [editingMainTimer, setEditingMainTimer] = useState<boolean>(false);
-  const [editingMainName, setEditingMainName] = useState<boolean>(false);
-  const [tempTime, setTempTime] = useState(fmt(currentTask.targetSec));
-  const [tempName, setTempName] = useState(currentTask.name);
+};
 
-  const listContainerRef = useRef<HTMLUListElement | null>(null);
-  const taskLightsRef = useRef<HTMLDivElement | null>(null);
-  const roundLightsRef = useRef<HTMLDivElement | null>(null);
+/** Start/end angles for each pie segment, proportional to values when given */
+const segmentAngles = (segments: number, segmentValues?: number[]) => {
+  if (segmentValues && segmentValues.length === segments) {
+    const total = segmentValues.reduce((sum, val) => sum + val, 0);
+    let currentAngle = 0;
+    return segmentValues.map((val) => {
+      const startAngle = currentAngle;
+      const angleSize = (val / total) * 2 * Math.PI;
+      currentAngle += angleSize;
+      return { startAngle, endAngle: currentAngle };
+    });
+  }
+  // Equal distribution
+  const anglePerSegment = (2 * Math.PI) / segments;
+  return Array.from({ length: segments }).map((_, i) => ({
+    startAngle: i * anglePerSegment,
+    endAngle: (i + 1) * anglePerSegment,
+  }));
+};
 
-  useEffect(() => {
-    if (lastAddedId && listContainerRef.current) {
-      const listEl = listContainerRef.current;
-      // Capture page position before
-      const pageScrollY = window.scrollY;
-      const pageScrollX = window.scrollX;
+/** SVG path for one pie wedge, measured clockwise from 12 o'clock */
+const arcPath = (
+  center: number,
+  radius: number,
+  startAngle: number,
+  endAngle: number
+) => {
+  // Handle full circle case - draw it slightly less than full to make it visible
+  const angleDiff = endAngle - startAngle;
+  if (angleDiff >= 2 * Math.PI - 0.001) {
+    // Draw a circle instead
+    return `M ${center} ${
+      center - radius
+    } A ${radius} ${radius} 0 1 1 ${center} ${
+      center + radius
+    } A ${radius} ${radius} 0 1 1 ${center} ${center - radius} Z`;
+  }
 
-      // Scroll list instantly (no smooth behavior)
-      listEl.scrollTop = listEl.scrollHeight;
+  const x1 = center + radius * Math.cos(startAngle - Math.PI / 2);
+  const y1 = center + radius * Math.sin(startAngle - Math.PI / 2);
+  const x2 = center + radius * Math.cos(endAngle - Math.PI / 2);
+  const y2 = center + radius * Math.sin(endAngle - Math.PI / 2);
+  const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
 
-      // Force restore page position immediately
-      window.scrollTo(pageScrollX, pageScrollY);
+  return `M ${center} ${center} L ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} Z`;
+};
 
-      // Double-check after a frame
-      requestAnimationFrame(() => {
-        window.scrollTo(pageScrollX, pageScrollY);
-      });
-    }
-  }, [lastAddedId]);
+/** A run of pie segments belonging together, e.g. the steps of one block */
+type PieGroup = { key: string; label: string };
 
-  useEffect(() => {
-    if (currentTask) {
-      setTempTime(fmt(currentTask.targetSec));
-      setTempName(currentTask.name);
-    }
-  }, [currentTask]);
+/** SVG path for an arc along the rim only, clockwise from 12 o'clock */
+const rimPath = (
+  center: number,
+  radius: number,
+  startAngle: number,
+  endAngle: number
+) => {
+  const x1 = center + radius * Math.cos(startAngle - Math.PI / 2);
+  const y1 = center + radius * Math.sin(startAngle - Math.PI / 2);
+  const x2 = center + radius * Math.cos(endAngle - Math.PI / 2);
+  const y2 = center + radius * Math.sin(endAngle - Math.PI / 2);
+  const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+  return `M ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2}`;
+};
 
-  // Auto-save when scrolling while editing a task
-  useEffect(() => {
-    const listEl = listContainerRef.current;
-    if (!listEl) return;
+/**
+ * Pie chart component for progress visualization. Segments with a fill color
+ * show it inside, keeping their progress color as an outer ring; runs of
+ * segments in the same group get a bracket along the rim
+ */
+const PieChart = ({
+  segments,
+  currentIndex,
+  size = 60,
+  getSegmentColor,
+  getSegmentFill,
+  getSegmentGroup,
+  segmentValues,
+}: {
+  segments: number;
+  currentIndex: number;
+  size?: number;
+  getSegmentColor: (index: number) => string;
+  getSegmentFill?: (index: number) => string | undefined;
+  getSegmentGroup?: (index: number) => PieGroup | undefined;
+  segmentValues?: number[]; // Optional array of values for proportional sizing
+}) => {
+  const center = size / 2;
+  const radius = size / 2 - 2;
+  const ringWidth = Math.max(3, Math.round(size * 0.09));
 
-    const handleScroll = () => {
-      if (editingTaskId && editingValues) {
-        // Save the current editing values when scroll starts
-        handleUpdateTask(
-          editingTaskId,
-          editingValues.name,
-          parseTime(editingValues.timeStr)
+  // Calculate angles based on values or equal distribution
+  const angles = segmentAngles(segments, segmentValues);
+  const groupKey = (i: number) => getSegmentGroup?.(i)?.key;
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
+      {angles.map(({ startAngle, endAngle }, i) => {
+        const colorClass =
+          i <= currentIndex ? getSegmentColor(i) : "incomplete";
+        const fill = getSegmentFill?.(i);
+        const segment = (
+          <path
+            key={i}
+            d={arcPath(center, radius, startAngle, endAngle)}
+            className={`pie-segment ${colorClass}`}
+            stroke="#fff"
+            strokeWidth="1"
+          />
         );
-        setEditingTaskId(null);
-        setEditingValues(null);
-        setRunState("idle");
-      }
+        if (!fill) return segment;
+
+        return (
+          <g key={i}>
+            {segment}
+            <path
+              d={arcPath(center, radius - ringWidth, startAngle, endAngle)}
+              className={`pie-fill ${i <= currentIndex ? "" : "upcoming"}`}
+              style={{ fill }}
+              stroke="#fff"
+              strokeWidth="1"
+            />
+          </g>
+        );
+      })}
+      {angles.map(({ startAngle }, i) => {
+        const group = getSegmentGroup?.(i);
+        if (!group || (i > 0 && groupKey(i - 1) === group.key)) return null;
+        let last = i;
+        while (last + 1 < angles.length && groupKey(last + 1) === group.key)
+          last++;
+        // A group covering the whole pie has no structure worth marking
+        if (i === 0 && last === angles.length - 1) return null;
+        const gap = Math.min(0.04, (angles[last].endAngle - startAngle) / 4);
+        return (
+          <path
+            key={`group-${i}`}
+            d={rimPath(
+              center,
+              radius - 0.5,
+              startAngle + gap,
+              angles[last].endAngle - gap
+            )}
+            className="pie-group"
+          >
+            <title>{group.label}</title>
+          </path>
+        );
+      })}
+    </svg>
+  );
+};
+
+/** ------------ Sound engine ------------ */
+/*
+ * Every cue plays through one shared AudioContext and a master gain node, so
+ * volume and mute apply everywhere and nothing opens a context per beep.
+ */
+type SoundEvent =
+  | "taskEnd"
+  | "warning"
+  | "countdown"
+  | "taskDone"
+  | "roundDone"
+  | "sessionDone"
+  | "ui";
+type UiSound =
+  | "increase"
+  | "decrease"
+  | "start"
+  | "pause"
+  | "nav"
+  | "restart"
+  | "focus";
+/** One oscillator note; `endHz` glides the pitch over its duration */
+type Tone = {
+  hz: number;
+  endHz?: number;
+  at: number; // seconds after the cue starts
+  dur: number;
+  gain: number;
+  wave?: OscillatorType;
+};
+type SoundDesign = { label: string; tones: Tone[] };
+type SoundSettings = {
+  volume: number; // master, 0–1
+  muted: boolean;
+  events: Record<SoundEvent, { enabled: boolean; design: string }>;
+};
+
+const note = (hz: number, at: number, gain: number, dur = 0.25): Tone => ({
+  hz,
+  at,
+  dur,
+  gain,
+});
+
+const SOUND_DESIGNS: Record<string, SoundDesign> = {
+  beeps: {
+    label: "Triple beep",
+    tones: [0, 0.4, 0.8].map((at) => note(880, at, 0.6, 0.3)),
+  },
+  alarm: {
+    label: "Alarm",
+    tones: [0, 0.2, 0.4, 0.6, 0.8, 1].map((at, i) => ({
+      ...note(i % 2 ? 660 : 990, at, 0.9, 0.18),
+      wave: "square" as OscillatorType,
+    })),
+  },
+  bell: {
+    label: "Bell",
+    tones: [note(1318.5, 0, 0.35, 1.2), note(659.25, 0, 0.2, 1.4)],
+  },
+  soft: { label: "Soft tone", tones: [note(523.25, 0, 0.15, 0.5)] },
+  ping: { label: "Ping", tones: [note(1046.5, 0, 0.3, 0.35)] },
+  tick: {
+    label: "Tick",
+    tones: [{ ...note(1000, 0, 0.25, 0.06), wave: "triangle" }],
+  },
+  blip: {
+    label: "Blip",
+    tones: [{ ...note(1500, 0, 0.15, 0.08), wave: "square" }],
+  },
+  chime: {
+    label: "Chime",
+    tones: [note(880, 0, 0.2), note(1108.73, 0.1, 0.2)],
+  },
+  click: {
+    label: "Click",
+    tones: [{ ...note(1800, 0, 0.12, 0.03), wave: "triangle" }],
+  },
+  rise: {
+    label: "Rising third",
+    tones: [659.25, 830.61, 987.77].map((hz, i) => note(hz, i * 0.12, 0.18)),
+  },
+  fanfare: {
+    label: "Fanfare",
+    tones: [523.25, 659.25, 783.99, 1046.5].map((hz, i) =>
+      note(hz, i * 0.1, 0.15)
+    ),
+  },
+  sweeps: { label: "Sweeps", tones: [] }, // per-action recipes below
+  ticks: {
+    label: "Quiet ticks",
+    tones: [{ ...note(1400, 0, 0.03, 0.025), wave: "triangle" }],
+  },
+};
+
+/** The designs offered for each event, the first being the default */
+const EVENT_DESIGNS: Record<SoundEvent, string[]> = {
+  taskEnd: ["beeps", "alarm", "bell", "soft"],
+  warning: ["ping", "soft", "bell"],
+  countdown: ["tick", "blip", "click"],
+  taskDone: ["chime", "click", "soft", "bell"],
+  roundDone: ["rise", "chime", "bell"],
+  sessionDone: ["fanfare", "bell", "rise"],
+  ui: ["sweeps", "ticks"],
+};
+const SOUND_EVENT_LABELS: Record<SoundEvent, string> = {
+  taskEnd: "Task time up",
+  warning: "Warning cue",
+  countdown: "3-2-1 ticks",
+  taskDone: "Task done",
+  roundDone: "Round complete",
+  sessionDone: "Session complete",
+  ui: "Button clicks",
+};
+
+const sweepTone = (
+  hz: number,
+  endHz: number,
+  dur: number,
+  gain: number,
+  wave: OscillatorType = "sine"
+): Tone => ({ hz, endHz, at: 0, dur, gain, wave });
+
+const UI_SWEEPS: Record<UiSound, Tone> = {
+  increase: sweepTone(660, 960, 0.12, 0.08),
+  decrease: sweepTone(700, 420, 0.12, 0.08),
+  start: sweepTone(440, 660, 0.1, 0.06),
+  pause: sweepTone(660, 440, 0.1, 0.06),
+  nav: sweepTone(800, 550, 0.1, 0.05),
+  restart: sweepTone(900, 300, 0.15, 0.07),
+  focus: sweepTone(300, 900, 0.1, 0.04, "triangle"),
+};
+
+const SOUND_SETTINGS_KEY = "weaselTimerSound";
+const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  volume: 0.8,
+  muted: false,
+  events: {
+    taskEnd: { enabled: true, design: "beeps" },
+    warning: { enabled: true, design: "ping" },
+    countdown: { enabled: true, design: "tick" },
+    taskDone: { enabled: true, design: "chime" },
+    roundDone: { enabled: true, design: "rise" },
+    sessionDone: { enabled: true, design: "fanfare" },
+    ui: { enabled: true, design: "sweeps" },
+  },
+};
+
+/** Stored sound settings, falling back per event to the defaults */
+const loadSoundSettings = (): SoundSettings => {
+  const defaults = DEFAULT_SOUND_SETTINGS;
+  try {
+    const saved = JSON.parse(localStorage.getItem(SOUND_SETTINGS_KEY) || "{}");
+    const events = { ...defaults.events };
+    (Object.keys(events) as SoundEvent[]).forEach((event) => {
+      const e = saved.events?.[event];
+      if (!e) return;
+      events[event] = {
+        enabled: e.enabled !== false,
+        design:
+          EVENT_DESIGNS[event].indexOf(e.design) !== -1
+            ? e.design
+            : defaults.events[event].design,
+      };
+    });
+    return {
+      volume:
+        typeof saved.volume === "number"
+          ? clamp(saved.volume, 0, 1)
+          : defaults.volume,
+      muted: !!saved.muted,
+      events,
     };
+  } catch (e) {
+    console.error("Failed to load sound settings:", e);
+    return defaults;
+  }
+};
 
-    listEl.addEventListener("scroll", handleScroll);
-    return () => listEl.removeEventListener("scroll", handleScroll);
-  }, [editingTaskId, editingValues]);
+// Mirrors the settings held in App, for cues played outside React
+let soundSettings = DEFAULT_SOUND_SETTINGS;
+let audioOut: { ctx: AudioContext; master: GainNode } | null = null;
 
-  // Scroll task lights to bottom when there are more than 9 tasks
-  useEffect(() => {
-    if (taskLightsRef.current && chain.length > 9) {
-      taskLightsRef.current.scrollTop = taskLightsRef.current.scrollHeight;
-    }
-  }, [chain.length]);
+/** The shared context and master gain, created on first use */
+const getAudioOut = () => {
+  if (!audioOut) {
+    const AudioCtx =
+      (window as any).AudioContext || (window as any).webkitAudioContext;
+    const ctx: AudioContext = new AudioCtx();
+    const master = ctx.createGain();
+    master.gain.value = soundSettings.volume;
+    master.connect(ctx.destination);
+    audioOut = { ctx, master };
+  }
+  // Contexts start suspended until the page has had a user gesture
+  if (audioOut.ctx.state === "suspended") audioOut.ctx.resume();
+  return audioOut;
+};
 
-  // Scroll round lights to bottom when there are more than 9 rounds
-  useEffect(() => {
-    if (roundLightsRef.current && roundsCount > 9) {
-      roundLightsRef.current.scrollTop = roundLightsRef.current.scrollHeight;
-    }
-  }, [roundsCount]);
+const applySoundSettings = (next: SoundSettings) => {
+  soundSettings = next;
+  if (audioOut) audioOut.master.gain.value = next.volume;
+};
 
-  const handleUpdateTask = (
-    taskId: string,
-    newName: string,
-    newTargetSec: number
-  ) => {
-    setTasks((prevTasks) =>
-      prevTasks.map((t) =>
-        t.id === taskId ? { ...t, name: newName, targetSec: newTargetSec } : t
-      )
-    );
+const playTones = (tones: Tone[]) => {
+  try {
+    const { ctx, master } = getAudioOut();
+    const t = ctx.currentTime;
+    tones.forEach((tone) => {
+      const o = ctx.createOscillator();
+      const g = ctx.createGain();
+      const start = t + tone.at;
+      o.type = tone.wave ?? "sine";
+      o.frequency.setValueAtTime(tone.hz, start);
+      if (tone.endHz !== undefined)
+        o.frequency.linearRampToValueAtTime(tone.endHz, start + tone.dur);
+      o.connect(g);
+      g.connect(master);
+      g.gain.setValueAtTime(0.0001, start);
+      g.gain.exponentialRampToValueAtTime(tone.gain, start + 0.015);
+      g.gain.exponentialRampToValueAtTime(0.0001, start + tone.dur);
+      o.start(start);
+      o.stop(start + tone.dur + 0.05);
+    });
+  } catch {
+    /* no-op */
+  }
+};
+
+/** Play the cue for an event, or `design` in place of the chosen one */
+const playSound = (event: SoundEvent, design?: string) => {
+  const pref = soundSettings.events[event];
+  if (soundSettings.muted || !pref.enabled) return;
+  const recipe = SOUND_DESIGNS[design ?? pref.design];
+  if (recipe) playTones(recipe.tones);
+};
+
+const playUi = (sound: UiSound) => {
+  const pref = soundSettings.events.ui;
+  if (soundSettings.muted || !pref.enabled) return;
+  playTones(
+    pref.design === "sweeps"
+      ? [UI_SWEEPS[sound]]
+      : SOUND_DESIGNS[pref.design].tones
+  );
+};
+
+/** Play a design whatever the mute and event switches say, for previews */
+const previewSound = (design: string) =>
+  playTones(
+    design === "sweeps"
+      ? [UI_SWEEPS.increase]
+      : SOUND_DESIGNS[design]?.tones ?? []
+  );
+
+const playIncrease = () => playUi("increase");
+const playDecrease = () => playUi("decrease");
+const playStart = () => playUi("start");
+const playPause = () => playUi("pause");
+const playNav = () => playUi("nav");
+const playRestartSound = () => playUi("restart");
+const playFocusToggle = () => playUi("focus");
+
+/** ------------ Spoken announcements ------------ */
+type VoiceEvent =
+  | "transition"
+  | "oneMinute"
+  | "tenSeconds"
+  | "roundDone"
+  | "sessionDone";
+type VoiceSettings = {
+  enabled: boolean;
+  voiceURI: string; // "" for the browser's default voice
+  rate: number;
+  events: Record<VoiceEvent, boolean>;
+};
+
+const VOICE_SETTINGS_KEY = "weaselTimerVoice";
+const VOICE_EVENT_LABELS: Record<VoiceEvent, string> = {
+  transition: "Next task and its length",
+  oneMinute: "One minute remaining",
+  tenSeconds: "Ten seconds remaining",
+  roundDone: "Round complete",
+  sessionDone: "Session summary",
+};
+// Seconds-remaining warnings, spoken once each as a task runs down
+const VOICE_WARNINGS: { event: VoiceEvent; sec: number; text: string }[] = [
+  { event: "oneMinute", sec: 60, text: "One minute remaining" },
+  { event: "tenSeconds", sec: 10, text: "Ten seconds" },
+];
+
+const speechSupported = () =>
+  typeof window !== "undefined" && "speechSynthesis" in window;
+
+const loadVoiceSettings = (): VoiceSettings => {
+  const defaults: VoiceSettings = {
+    enabled: false,
+    voiceURI: "",
+    rate: 1,
+    events: {
+      transition: true,
+      oneMinute: true,
+      tenSeconds: true,
+      roundDone: true,
+      sessionDone: true,
+    },
   };
+  try {
+    const saved = JSON.parse(localStorage.getItem(VOICE_SETTINGS_KEY) || "{}");
+    return {
+      ...defaults,
+      ...saved,
+      rate: clamp(Number(saved.rate) || defaults.rate, 0.5, 2),
+      events: { ...defaults.events, ...saved.events },
+    };
+  } catch (e) {
+    console.error("Failed to load voice settings:", e);
+    return defaults;
+  }
+};
 
-  const handleBlur = (taskId: string | null, e?: React.FocusEvent) => {
-    // If focus is moving to another input in the same editing session, don't close yet
-    if (
-      e?.relatedTarget &&
-      (e.relatedTarget as HTMLElement).classList.contains("list-input")
-    ) {
-      return;
-    }
+/** Say `text`, after anything already queued */
+const speak = (text: string, prefs: VoiceSettings) => {
+  if (!speechSupported()) return;
+  try {
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voice = window.speechSynthesis
+      .getVoices()
+      .find((v) => v.voiceURI === prefs.voiceURI);
+    if (voice) utterance.voice = voice;
+    utterance.rate = prefs.rate;
+    window.speechSynthesis.speak(utterance);
+  } catch {
+    /* no-op */
+  }
+};
 
-    if (editingMainTimer) {
-      const newSec = parseTime(tempTime);
-      handleUpdateTask(currentTaskId, currentTask.name, newSec);
-      pausedOffsetMs.current = 0;
-      taskStartMs.current = null;
-      setRunState("idle");
-      setEditingMainTimer(false);
-      justFinishedEditingRef.current = true;
-    }
-    if (editingMainName) {
-      handleUpdateTask(currentTaskId, tempName, currentTask.targetSec);
-      setEditingMainName(false);
-      justFinishedEditingRef.current = true;
-    }
-    if (taskId && editingTaskId === taskId && editingValues) {
-      handleUpdateTask(
-        taskId,
-        editingValues.name,
-        parseTime(editingValues.timeStr)
-      );
-      setEditingTaskId(null);
-      setEditingValues(null);
-      setRunState("idle");
-      justFinishedEditingRef.current = true;
-    }
+/** Durations the way they are read out, e.g. "1 minute 30 seconds" */
+const spokenDuration = (sec: number) => {
+  const part = (n: number, unit: string) => `${n} ${unit}${n === 1 ? "" : "s"}`;
+  const m = Math.floor(sec / 60);
+  const s = sec % 60;
+  if (!m) return part(s, "second");
+  return s ? `${part(m, "minute")} ${part(s, "second")}` : part(m, "minute");
+};
+
+/** ------------ Pre-end warning cues ------------ */
+/** Cues before a task ends: at each offset (seconds left), plus 3-2-1 ticks */
+type WarningCues = { offsets: number[]; countdown: boolean };
+
+const CUES_KEY = "weaselTimerCues";
+const DEFAULT_CUES: WarningCues = { offsets: [], countdown: false };
+const MAX_CUE_OFFSETS = 5;
+const COUNTDOWN_TICKS = [3, 2, 1];
+
+/** Offsets as typed, e.g. "1:00, 10" → [60, 10]; null when malformed */
+const parseCueOffsets = (text: string): number[] | null => {
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+  if (parts.some((part) => !/^\d+(:\d{1,2}){0,2}$/.test(part))) return null;
+  const secs = parts.map(parseTime).filter((sec) => sec > 0);
+  return secs
+    .filter((sec, i) => secs.indexOf(sec) === i)
+    .sort((a, b) => b - a)
+    .slice(0, MAX_CUE_OFFSETS);
+};
+
+/** Validate stored cues; undefined when absent, null when malformed */
+const parseWarningCues = (raw: any): WarningCues | undefined | null => {
+  if (raw === undefined) return undefined;
+  if (
+    !raw ||
+    typeof raw !== "object" ||
+    !Array.isArray(raw.offsets) ||
+    !raw.offsets.every((n: any) => Number.isInteger(n) && n > 0)
+  )
+    return null;
+  return {
+    offsets: raw.offsets.slice(0, MAX_CUE_OFFSETS),
+    countdown: !!raw.countdown,
   };
+};
 
-  const startEditing = (task: Task) => {
-    setRunState("paused");
-    setEditingTaskId(task.id);
-    setEditingValues({
-      id: task.id,
-      name: task.name,
-      timeStr: fmt(task.targetSec),
+const loadWarningCues = (): WarningCues => {
+  try {
+    const saved = localStorage.getItem(CUES_KEY);
+    if (saved) return parseWarningCues(JSON.parse(saved)) || DEFAULT_CUES;
+  } catch (e) {
+    console.error("Failed to load warning cues:", e);
+  }
+  return DEFAULT_CUES;
+};
+
+/** Seconds-left marks at which cues fire, highest first */
+const cueThresholds = (cues: WarningCues) => {
+  const marks = cues.offsets.slice();
+  if (cues.countdown)
+    COUNTDOWN_TICKS.forEach((sec) => {
+      if (marks.indexOf(sec) === -1) marks.push(sec);
     });
+  return marks.sort((a, b) => b - a);
+};
+
+/** Offsets field and 3-2-1 toggle; the text commits on blur or Enter */
+const WarningCuesFields = ({
+  idPrefix,
+  cues,
+  onChange,
+}: {
+  idPrefix: string;
+  cues: WarningCues;
+  onChange: (cues: WarningCues) => void;
+}) => {
+  const shown = cues.offsets.map(fmt).join(", ");
+  const [text, setText] = useState(shown);
+  const [invalid, setInvalid] = useState(false);
+  useEffect(() => setText(shown), [shown]);
+  const commit = () => {
+    const offsets = parseCueOffsets(text);
+    setInvalid(offsets === null);
+    if (offsets === null) return;
+    setText(offsets.map(fmt).join(", "));
+    onChange({ ...cues, offsets });
   };
+  return (
+    <>
+      <div className="setting-row" style={{ paddingLeft: "20px" }}>
+        <label htmlFor={`${idPrefix}-offsets`}>Warn at</label>
+        <input
+          id={`${idPrefix}-offsets`}
+          className={`cue-offsets ${invalid ? "is-invalid" : ""}`}
+          type="text"
+          value={text}
+          placeholder="e.g. 1:00, 0:10"
+          onChange={(e) => setText(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+        />
+        <label htmlFor={`${idPrefix}-offsets`}>left</label>
+      </div>
+      <div className="setting-row" style={{ paddingLeft: "20px" }}>
+        <input
+          id={`${idPrefix}-countdown`}
+          type="checkbox"
+          checked={cues.countdown}
+          onChange={(e) => onChange({ ...cues, countdown: e.target.checked })}
+        />
+        <label htmlFor={`${idPrefix}-countdown`}>3-2-1 countdown ticks</label>
+      </div>
+    </>
+  );
+};
 
-  const restartSession = () => {
-    playRestartSound();
-    setRounds(
-      Array.from({ length: roundsCount }, () =>
-        chain.map((): TaskResult => ({ status: "incomplete" as TaskStatus, actualSec: null }))
-      )
-    );
-    setCurrentRoundIndex(0);
-    setCurrentTaskIndex(0);
-    pausedOffsetMs.current = 0;
-    taskStartMs.current = null;
-    setRunState("idle");
-    setIsSessionComplete(false);
-    autoLatchRef.current = false;
-    nextRolloverRef.current = 0;
-    setRolloverOffsetSec(0);
-  };
+/** ------------------------------------------------------------------------- */
 
-  const handleClearAll = () => {
-    const newId = generateId();
-    const defaultTask: Task = { id: newId, name: "New Task", targetSec: 60 };
-    setTasks([defaultTask]);
-    setChain([newId]);
-    setRoundsCount(1);
-    setRounds([[{ status: "incomplete" as TaskStatus, actualSec: null }]]);
-    setCurrentRoundIndex(0);
-    setCurrentTaskIndex(0);
-    pausedOffsetMs.current = 0;
-    taskStartMs.current = null;
-    setRunState("idle");
-    setIsSessionComplete(false);
-    autoLatchRef.current = false;
-    nextRolloverRef.current = 0;
-    setRolloverOffsetSec(0);
-    setEditingTaskId(null);
-    setEditingValues(null);
-    setEditingMainTimer(false);
-    setEditingMainName(false);
-    playDecrease();
-    triggerTotalPulse();
-    triggerRoundPulse();
-  };
+export default function App() {
+  const [isLoading, setIsLoading] = useState(true);
 
-  const handleConfirmClearAll = () => {
-    handleClearAll();
-    setShowConfirmModal(false);
-  };
+  // Preload button icons and show loading screen until ready
+  useEffect(() => {
+    const iconPaths = [
+      "/repeat-icon.svg",
+      "/pause-icon.svg",
+      "/play-icon.svg",
+      "/done-icon.svg",
+      "/weasel-logo-newer-png-small.png",
+    ];
 
-  const handleAddTask = () => {
-    // Maximum of 25 tasks
-    if (chain.length >= 25) {
+    const startTime = Date.now();
+    const minLoadingTime = 1500;
+
+    let loadedCount = 0;
+    const totalIcons = iconPaths.length;
+
+    // Create a hidden container to force browser to cache images
+    const hiddenContainer = document.createElement("div");
+    hiddenContainer.style.position = "absolute";
+    hiddenContainer.style.left = "-9999px";
+    hiddenContainer.style.top = "-9999px";
+    document.body.appendChild(hiddenContainer);
+
+    const finishLoading = () => {
+      const elapsed = Date.now() - startTime;
+      const remaining = Math.max(0, minLoadingTime - elapsed);
+
+      setTimeout(() => {
+        setIsLoading(false);
+        // Keep the hidden container in the DOM to maintain cache
+      }, remaining + 500);
+    };
+
+    iconPaths.forEach((path) => {
+      const img = new Image();
+      img.onload = () => {
+        loadedCount++;
+        // Add loaded image to hidden container
+        hiddenContainer.appendChild(img);
+        if (loadedCount === totalIcons) {
+          finishLoading();
+        }
+      };
+      img.onerror = () => {
+        loadedCount++;
+        if (loadedCount === totalIcons) {
+          finishLoading();
+        }
+      };
+      img.src = path;
+    });
+
+    // Cleanup function
+    return () => {
+      if (hiddenContainer.parentNode) {
+        hiddenContainer.parentNode.removeChild(hiddenContainer);
+      }
+    };
+  }, []);
+
+  /** ------- Tasks/Chain ------- */
+  const [tasks, setTasks] = useState<Task[]>(INITIAL_TASKS);
+  const [chain, setChain] = useState<string[]>(INITIAL_CHAIN);
+  const [lastAddedId, setLastAddedId] = useState<string | null>(null);
+  // Task list shown as editable text instead of rows
+  const [showTaskText, setShowTaskText] = useState(false);
+  const byId = (id: string) => tasks.find((t) => t.id === id)!;
+
+  /** ------- Rounds / Results ------- */
+  const [roundsCount, setRoundsCount] = useState<number>(3);
+  const [rounds, setRounds] = useState<TaskResult[][]>(() =>
+    Array.from({ length: 3 }, () =>
+      INITIAL_CHAIN.map((): TaskResult => ({ status: "incomplete" as TaskStatus, actualSec: null }))
+    )
+  );
+
+  const isSkipped = (rIdx: number, i: number) =>
+    (rounds[rIdx]?.[i]?.status ?? "incomplete") === "skipped";
+
+  /** Whether the task at chain position `i` runs in round `rIdx` */
+  const inRound = (rIdx: number, i: number) =>
+    taskInRound(byId(chain[i]), rIdx, roundsCount);
+
+  const roundTargetSec = (rIdx: number) =>
+    chain.reduce(
+      (sum, id, i) =>
+        sum +
+        (isSkipped(rIdx, i) || !inRound(rIdx, i) ? 0 : plannedSec(byId(id))),
+      0
+    );
+
+  const nextPosition = (rIdx: number, taskIdx: number) =>
+    stepPosition(tasks, chain, roundsCount, rIdx, taskIdx, 1);
+  const prevPosition = (rIdx: number, taskIdx: number) =>
+    stepPosition(tasks, chain, roundsCount, rIdx, taskIdx, -1);
+
+  const sessionTargetSec = () =>
+    Array.from({ length: roundsCount }).reduce(
+      (s: number, _: unknown, r: number) => s + roundTargetSec(r),
+      0
+    );
+
+  const [focusMode, setFocusMode] = useState(false);
+  const timerAreaRef = useRef<HTMLDivElement | null>(null);
+  const justFinishedEditingRef = useRef(false);
+  const handleTimerAreaClick: React.MouseEventHandler<HTMLDivElement> = (e) => {
+    const interactiveTags = new Set([
+      "BUTTON",
+      "A",
+      "INPUT",
+      "TEXTAREA",
+      "SELECT",
+      "LABEL",
+      "OPTION",
+    ]);
+    let node = e.target as HTMLElement | null;
+    while (node && node !== timerAreaRef.current) {
+      if (
+        interactiveTags.has(node.tagName) ||
+        (node as any).dataset?.nocapture === "true"
+      )
+        return;
+      node = node.parentElement;
+    }
+    // Don't toggle focus mode if we just finished editing
+    if (justFinishedEditingRef.current) {
+      justFinishedEditingRef.current = false;
       return;
     }
-    const newId = generateId();
-    const newTask: Task = { id: newId, name: "New Task", targetSec: 60 };
-    setTasks((prev) => [...prev, newTask]);
-    setChain((prev) => [...prev, newId]);
-    startEditing(newTask);
-    setLastAddedId(newId);
-    triggerRoundPulse();
-    playIncrease();
+    playFocusToggle();
+    setFocusMode((f) => !f);
   };
 
-  const handleDeleteTask = (taskId: string, taskIndex: number) => {
-    if (chain.length <= 1) return;
-    setTasks((prevTasks) => prevTasks.filter((t) => t.id !== taskId));
-    setChain((prevChain) => prevChain.filter((id) => id !== taskId));
-    if (taskIndex === currentTaskIndex) {
-      const newIndex = taskIndex === chain.length - 1 ? 0 : taskIndex;
-      setCurrentTaskIndex(newIndex);
-    } else if (taskIndex < currentTaskIndex) {
-      setCurrentTaskIndex((prevIndex) => prevIndex - 1);
-    }
-    triggerRoundPulse();
-    playDecrease();
-  };
+  /** ------- Position ------- */
+  const [currentRoundIndex, setCurrentRoundIndex] = useState(0);
+  const [currentTaskIndex, setCurrentTaskIndex] = useState(0);
 
-  const dragFrom = useRef<number | null>(null);
-  const [draggingTaskIndex, setDraggingTaskIndex] = useState<number | null>(
+  /** ------- Timer / Run state ------- */
+  const [runState, setRunState] = useState<RunState>("idle");
+  const [isSessionComplete, setIsSessionComplete] = useState(false);
+  const taskStartMs = useRef<number | null>(null);
+  const pausedOffsetMs = useRef<number>(0);
+
+  const [showSettings, setShowSettings] = useState(false);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  // Action waiting for its new key in the Settings modal
+  const [remappingAction, setRemappingAction] = useState<ShortcutAction | null>(
     null
   );
 
-  const moveTask = (from: number, to: number) => {
-    if (from === to) return;
-    setChain((prev) => {
-      const next = [...prev];
-      const [id] = next.splice(from, 1);
-      next.splice(to, 0, id);
-      return next;
-    });
-    setRounds((prev) =>
-      prev.map((row) => {
-        const next = [...row];
-        const [cell] = next.splice(from, 1);
-        next.splice(to, 0, cell);
-        return next;
-      })
-    );
-  };
-  const onDragStartTask = (i: number) => (e: React.DragEvent) => {
-    if (editingTaskId) {
-      e.preventDefault();
-      return;
-    }
-    dragFrom.current = i;
-    setDraggingTaskIndex(i);
-    e.dataTransfer.effectAllowed = "move";
+  useEffect(() => {
+    if (!showSettings) setRemappingAction(null);
+  }, [showSettings]);
 
-    // Create a more visible drag image
-    const target = e.currentTarget as HTMLElement;
-    if (target) {
-      const rect = target.getBoundingClientRect();
-      e.dataTransfer.setDragImage(target, rect.width / 2, rect.height / 2);
-    }
+  const saveKeymap = (next: Keymap) => {
+    localStorage.setItem(KEYMAP_KEY, JSON.stringify(next));
+    setKeymap(next);
   };
 
-  const onDragOverTask = (i: number) => (e: React.DragEvent) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = "move";
+  /** Bind `key` to `action`, unbinding any other action that used it */
+  const rebindShortcut = (action: ShortcutAction, key: string) => {
+    const next = { ...keymap };
+    SHORTCUT_ACTIONS.forEach(({ action: other }) => {
+      if (other !== action && next[other] === key) next[other] = "";
+    });
+    next[action] = key;
+    saveKeymap(next);
   };
 
-  const onDropTask = (i: number) => (e: React.DragEvent) => {
-    e.preventDefault();
-    const from = dragFrom.current;
-    dragFrom.current = null;
-    setDraggingTaskIndex(null);
-    if (from == null) return;
-    if (runState !== "running" && !editingTaskId) moveTask(from, i);
+  /** ------- System notifications ------- */
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPrefs>(
+    loadNotificationPrefs
+  );
+  const notificationRegRef = useRef<ServiceWorkerRegistration | null>(null);
+  const overtimeNotifiedRef = useRef(false);
+
+  const saveNotificationPrefs = (next: NotificationPrefs) => {
+    localStorage.setItem(NOTIFICATION_PREFS_KEY, JSON.stringify(next));
+    setNotificationPrefs(next);
   };
 
-  const onDragEndTask = () => {
-    dragFrom.current = null;
-    setDraggingTaskIndex(null);
+  useEffect(() => {
+    if (!notificationPrefs.enabled) return;
+    registerNotificationWorker().then((reg) => {
+      notificationRegRef.current = reg;
+    });
+  }, [notificationPrefs.enabled]);
+
+  /** ------- Sound ------- */
+  const [soundPrefs, setSoundPrefs] = useState<SoundSettings>(
+    loadSoundSettings
+  );
+
+  useEffect(() => applySoundSettings(soundPrefs), [soundPrefs]);
+
+  const saveSoundPrefs = (next: SoundSettings) => {
+    localStorage.setItem(SOUND_SETTINGS_KEY, JSON.stringify(next));
+    setSoundPrefs(next);
   };
 
-  // Modal drag-and-drop handlers
-  const moveDraftTask = (from: number, to: number) => {
-    if (from === to) return;
-    setDraftChain((prev) => {
-      const next = [...prev];
-      const [id] = next.splice(from, 1);
-      next.splice(to, 0, id);
-      return next;
+  const updateSoundEvent = (
+    event: SoundEvent,
+    patch: Partial<SoundSettings["events"][SoundEvent]>
+  ) =>
+    saveSoundPrefs({
+      ...soundPrefs,
+      events: {
+        ...soundPrefs.events,
+        [event]: { ...soundPrefs.events[event], ...patch },
+      },
     });
+
+  /** ------- Warning cues ------- */
+  const [warningCues, setWarningCues] = useState<WarningCues>(loadWarningCues);
+
+  const saveWarningCues = (next: WarningCues) => {
+    localStorage.setItem(CUES_KEY, JSON.stringify(next));
+    setWarningCues(next);
   };
 
-  const onDragStartModalTask = (i: number) => (e: React.DragEvent) => {
-    if (editingModalTask) {
-      e.preventDefault();
-      return;
-    }
-    modalDragFrom.current = i;
-    e.dataTransfer.effectAllowed = "move";
+  /** ------- Voice announcements ------- */
+  const [voicePrefs, setVoicePrefs] = useState<VoiceSettings>(
+    loadVoiceSettings
+  );
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  const saveVoicePrefs = (next: VoiceSettings) => {
+    localStorage.setItem(VOICE_SETTINGS_KEY, JSON.stringify(next));
+    setVoicePrefs(next);
   };
 
-  const onDragOverModalTask = (i: number) => (e: React.DragEvent) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = "move";
+  // Most browsers fill in the voice list asynchronously
+  useEffect(() => {
+    if (!speechSupported()) return;
+    const synth = window.speechSynthesis;
+    const load = () => setVoices(synth.getVoices());
+    load();
+    synth.addEventListener("voiceschanged", load);
+    return () => synth.removeEventListener("voiceschanged", load);
+  }, []);
+
+  const announce = (event: VoiceEvent, text: string) => {
+    if (voicePrefs.enabled && voicePrefs.events[event]) speak(text, voicePrefs);
   };
 
-  const onDropModalTask = (i: number) => (e: React.DragEvent) => {
-    e.preventDefault();
-    const from = modalDragFrom.current;
-    modalDragFrom.current = null;
-    if (from == null) return;
-    moveDraftTask(from, i);
+  const toggleNotifications = async (enabled: boolean) => {
+    if (enabled && notificationsSupported()) {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        alert("Notifications are blocked for this site in your browser.");
+        return;
+      }
+    }
+    saveNotificationPrefs({ ...notificationPrefs, enabled });
+  };
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [showLoadModal, setShowLoadModal] = useState(false);
+  const [showConfirmModal, setShowConfirmModal] = useState(false);
+  const [sequenceName, setSequenceName] = useState("");
+  const [lastSavedSequenceId, setLastSavedSequenceId] = useState<string | null>(
+    null
+  );
+  const [savedSequences, setSavedSequences] = useState<SavedSequence[]>([]);
+  const [showSavedAlert, setShowSavedAlert] = useState(false);
+  const [savedAlertText, setSavedAlertText] = useState("Session saved!");
+  const flashAlert = (text: string) => {
+    setSavedAlertText(text);
+    setShowSavedAlert(true);
+    setTimeout(() => setShowSavedAlert(false), 2000);
   };
+  const [editingSequenceId, setEditingSequenceId] = useState<string | null>(
+    null
+  );
 
-  const onDragEndModalTask = () => {
-    modalDragFrom.current = null;
+  // Load saved sequences from localStorage on mount
+  useEffect(() => {
+    const saved = localStorage.getItem("weaselTimerSequences");
+    if (saved) {
+      try {
+        setSavedSequences(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to load sequences:", e);
+      }
+    }
+  }, []);
+
+  // Save sequences to localStorage
+  const saveSequencesToStorage = (sequences: SavedSequence[]) => {
+    localStorage.setItem("weaselTimerSequences", JSON.stringify(sequences));
+    setSavedSequences(sequences);
   };
 
-  // Update draft task name or duration
-  const updateDraftTask = (id: string, name: string, targetSec: number) => {
-    setDraftById((prev) => ({
-      ...prev,
-      [id]: { name, targetSec },
-    }));
+  /** ------- Built-in presets ------- */
+  const [loadTab, setLoadTab] = useState<"saved" | "presets">("saved");
+  const [openPresetId, setOpenPresetId] = useState<string | null>(null);
+  const [presetValues, setPresetValues] = useState<Record<string, number>>(
+    {}
+  );
+
+  // Start on the presets when there is nothing saved yet
+  const openLoadModal = () => {
+    setLoadTab(savedSequences.length ? "saved" : "presets");
+    setOpenPresetId(null);
+    setShowLoadModal(true);
   };
 
-  // Add new task in modal
-  const addDraftTask = () => {
-    const newId = generateId();
-    setDraftChain((prev) => [...prev, newId]);
-    setDraftById((prev) => ({
-      ...prev,
-      [newId]: { name: "New Task", targetSec: 60 },
-    }));
-    // Auto-edit the new task name
-    setTimeout(() => {
-      setEditingModalTask({ id: newId, field: "name" });
-    }, 50);
+  const openPreset = (preset: Preset) => {
+    setPresetValues(presetDefaults(preset));
+    setOpenPresetId(preset.id);
   };
 
-  // Calculate round and total time from draft
-  const calculateDraftRoundTime = () => {
-    return draftChain.reduce((sum, id) => {
-      const task = draftById[id];
-      return sum + (task?.targetSec || 0);
-    }, 0);
+  const clonePreset = (preset: Preset) => {
+    const newSequence: SavedSequence = {
+      id: `seq-${Date.now()}`,
+      name: preset.name,
+      ...preset.build(presetValues),
+      savedAt: Date.now(),
+    };
+    saveSequencesToStorage([...savedSequences, newSequence]);
+    setOpenPresetId(null);
+    setLoadTab("saved");
+    flashAlert("Preset saved to your sessions!");
   };
 
-  const calculateDraftTotalTime = () => {
-    return calculateDraftRoundTime() * draftRoundsCount;
+  /** ------- Session import / export ------- */
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [pendingImport, setPendingImport] = useState<SavedSequence[] | null>(
+    null
+  );
+
+  const handleImportFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        setPendingImport(parseSessionsFile(String(reader.result)));
+      } catch (e) {
+        alert(`Import failed: ${(e as Error).message}`);
+      }
+    };
+    reader.onerror = () => alert("Import failed: the file could not be read.");
+    reader.readAsText(file);
   };
 
-  const changeRounds = (n: number) => {
-    const prevCount = roundsCount;
-    const finalTotal = Math.min(25, Math.max(1, Math.floor(n) || 1));
-    if (finalTotal > prevCount) playIncrease();
-    else if (finalTotal < prevCount) playDecrease();
-    setRounds((prev) => {
-      let next = prev;
-      if (finalTotal > prev.length) {
-        const add = Array.from({ length: finalTotal - prev.length }, () =>
-          chain.map((): TaskResult => ({ status: "incomplete" as TaskStatus, actualSec: null }))
-        );
-        next = [...prev, ...add];
-      } else if (finalTotal < prev.length) {
-        next = prev.slice(0, finalTotal);
+  const applyImport = (mode: "merge" | "replace") => {
+    if (!pendingImport) return;
+    const takenTaskIds = new Set(tasks.map((t) => t.id));
+    const takenSessionIds = new Set<string>();
+    if (mode === "merge") {
+      savedSequences.forEach((seq) => {
+        takenSessionIds.add(seq.id);
+        seq.tasks.forEach((t) => takenTaskIds.add(t.id));
+      });
+    }
+    const imported = remapImportedSessions(
+      pendingImport,
+      takenTaskIds,
+      takenSessionIds
+    );
+    saveSequencesToStorage(
+      mode === "merge" ? [...savedSequences, ...imported] : imported
+    );
+    setPendingImport(null);
+    playIncrease();
+  };
+
+  /** ------- Share links ------- */
+  const [sharedSessions, setSharedSessions] = useState<
+    SavedSequence[] | null
+  >(null);
+
+  // Open a share link on arrival, or when one is pasted into this tab
+  useEffect(() => {
+    const readLink = () => {
+      const { hash, pathname, search } = window.location;
+      if (hash.indexOf(SHARE_HASH_PREFIX) !== 0) return;
+      // Drop the fragment so a reload doesn't offer the same session again
+      window.history.replaceState(null, "", pathname + search);
+      try {
+        setSharedSessions(parseShareLink(hash.slice(SHARE_HASH_PREFIX.length)));
+      } catch (e) {
+        alert(`This link can't be opened: ${(e as Error).message}`);
       }
-      setCurrentRoundIndex((r) => clamp(r, 0, finalTotal - 1));
-      setRoundsCount(finalTotal);
-      return next;
-    });
-    triggerTotalPulse();
+    };
+    readLink();
+    window.addEventListener("hashchange", readLink);
+    return () => window.removeEventListener("hashchange", readLink);
+  }, []);
+
+  const copyShareLink = async (seq: SavedSequence) => {
+    const url = shareLink(seq, savedSequences);
+    if (await copyText(url)) flashAlert("Link copied!");
+    else window.prompt("Copy this link:", url);
   };
 
-  const roundProgress =
-    curRoundTarget > 0
-      ? ((curRoundTarget - roundRemainingSec) / curRoundTarget) * 100
-      : 0;
-  const totalProgress =
-    fullSessionTarget > 0
-      ? ((fullSessionTarget - sessionRemainingSec) / fullSessionTarget) * 100
-      : 0;
-  const mainProgress =
-    effectiveTargetSec > 0
-      ? (elapsedMs / (effectiveTargetSec * 1000)) * 100
-      : 100;
-  const progressPercent = Math.min(100, Math.max(0, mainProgress));
+  // Session whose link is shown with a QR code for scanning with a phone
+  const [qrSession, setQrSession] = useState<SavedSequence | null>(null);
+  const qrShare = useMemo(() => {
+    if (!qrSession) return null;
+    const url = shareLink(qrSession, savedSequences);
+    try {
+      return { url, symbol: encodeQr(url), error: null };
+    } catch (e) {
+      return { url, symbol: null, error: (e as Error).message };
+    }
+  }, [qrSession, savedSequences]);
+
+  // The link's own copies of its blocks win over same-id library sessions
+  const runSharedSession = () => {
+    if (!sharedSessions) return;
+    const loaded = loadSequence(sharedSessions[0], [
+      ...sharedSessions.slice(1),
+      ...savedSequences,
+    ]);
+    if (loaded) setSharedSessions(null);
+  };
 
-  const tasksTrackFillPct = (() => {
-    const n = chain.length;
-    if (n <= 1) return 100;
-    const completedConnectors = Math.max(0, currentTaskIndex);
-    const tgt = currentTask.targetSec || 1;
-    const partial = Math.min(1, elapsedSec / tgt);
-    const pct = ((completedConnectors + partial) / (n - 1)) * 100;
-    return Math.max(0, Math.min(100, pct));
-  })();
+  const saveSharedSession = () => {
+    if (!sharedSessions) return;
+    const takenTaskIds = new Set(tasks.map((t) => t.id));
+    const takenSessionIds = new Set<string>();
+    savedSequences.forEach((seq) => {
+      takenSessionIds.add(seq.id);
+      seq.tasks.forEach((t) => takenTaskIds.add(t.id));
+    });
+    saveSequencesToStorage([
+      ...savedSequences,
+      ...remapImportedSessions(sharedSessions, takenTaskIds, takenSessionIds),
+    ]);
+    setSharedSessions(null);
+    flashAlert("Shared session saved to your sessions!");
+  };
 
-  const roundsTrackFillPct = (() => {
-    const n = roundsCount;
-    if (n <= 1) return 100;
-    const completedConnectors = Math.max(0, currentRoundIndex);
-    const denom = Math.max(1, roundTargetSec(currentRoundIndex));
-    const partial = Math.min(1, (roundElapsedActual + elapsedSec) / denom);
-    const pct = ((completedConnectors + partial) / (n - 1)) * 100;
-    return Math.max(0, Math.min(100, pct));
-  })();
+  /** ------- Results export ------- */
+  const exportResultsCsv = (
+    name: string,
+    orderedTasks: Task[],
+    results: TaskResult[][]
+  ) => {
+    downloadFile(
+      `weasel-${fileSlug(name)}-results.csv`,
+      resultsToCsv(resultRows(orderedTasks, results)),
+      "text/csv"
+    );
+  };
 
-  const displayTime = isOvertime ? "0:00" : fmt(remainingTaskSec);
-  const overtimeSec = isOvertime ? elapsedSec - effectiveTargetSec : 0;
+  // Falls back to a .md download when clipboard access is denied
+  const copyResultsMarkdown = async (
+    name: string,
+    orderedTasks: Task[],
+    results: TaskResult[][]
+  ) => {
+    const md = resultsToMarkdown(resultRows(orderedTasks, results));
+    if (await copyText(md)) {
+      flashAlert("Copied as Markdown!");
+    } else {
+      downloadFile(`weasel-${fileSlug(name)}-results.md`, md, "text/markdown");
+    }
+  };
 
-  return (
-    <>
-      {/* Loading screen overlay */}
-      {isLoading && (
-        <div className="loading-screen">
-          <div className="loading-content">
-            <div className="loading-spinner">
-              <div className="pixel-dot"></div>
-              <div className="pixel-dot"></div>
-              <div className="pixel-dot"></div>
-            </div>
-            <div className="loading-text">Loading...</div>
-          </div>
-        </div>
-      )}
+  /** ------- Session history ------- */
+  const [sessionHistory, setSessionHistory] = useState<SessionRecord[]>([]);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [openHistoryId, setOpenHistoryId] = useState<string | null>(null);
+  // Name of the saved session currently loaded, used to label history entries
+  const [activeSequenceName, setActiveSequenceName] = useState("");
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(
+    null
+  );
 
-      {/* Main app - hidden during loading */}
-      <div
-        className={`window ${focusMode ? "focus-mode" : ""} ${
-          isLoading ? "loading" : "loaded"
-        }`}
-        style={{ visibility: isLoading ? "hidden" : "visible" }}
-      >
-        <div className="titlebar">
-          <div className="appname">
-            <img
-              src="/weasel-logo-newer-png-small-just-text.png"
-              alt="weasel.io"
-              className="weasel-text-logo"
-            />
-            <img
-              src="/weasel-logo-newer-png-small-just-weez.png"
-              alt="Weasel"
-              className={`weasel-character ${weaselJump ? "weasel-jump" : ""}`}
-              onClick={() => {
-                setWeaselJump(true);
-                setTimeout(() => setWeaselJump(false), 600);
-                // Play hello sound
-                const audio = new Audio("/weasel-hello.mp3");
-                audio.volume = 0.5;
-                audio.play().catch(() => {
-                  /* ignore errors */
-                });
-              }}
-              style={{ cursor: "pointer" }}
-            />
-          </div>
-          <div className="title-buttons">
-            <button
-              className="settings-btn"
-              onClick={() => setShowSettings(true)}
-              title="Settings"
-            >
-              <img
-                src="/settings-icon.png"
-                alt="Settings"
-                className="icon-settings"
-              />
-            </button>
-            <button
-              className="settings-btn"
-              onClick={() => setShowConfirmModal(true)}
-              title="Clear all"
-            >
-              <img
-                src="/trash-icon.png"
-                alt="Clear all"
-                className="icon-trash"
-              />
-            </button>
-          </div>
-          <div className="window-dots" aria-hidden>
-            <span className="dot dot-min" />
-            <span className="dot dot-max" />
-            <span className="dot dot-close" />
-          </div>
-        </div>
+  useEffect(() => {
+    setSessionHistory(loadHistory());
+  }, []);
 
-        <div className="overview">
-          <div className="ov-left">
-            <div
-              className={`card timer-card ${pulseRound ? "wiggle-round" : ""}`}
-              onAnimationEnd={() => setPulseRound(false)}
-            >
-              <div
-                className="timer-progress-round"
-                style={{ transform: `scaleY(${1 - roundProgress / 100})` }}
-              />
-              <div className="card-content">
-                <div className="card-label">Round</div>
-                <div className="primary">{fmt(roundRemainingSec)}</div>
-                <div className="of">
-                  of <span className="time-badge">{fmt(curRoundTarget)}</span>
-                </div>
-              </div>
-            </div>
-          </div>
+  const saveHistoryToStorage = (history: SessionRecord[]) => {
+    const trimmed = history.slice(0, MAX_HISTORY);
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(trimmed));
+    setSessionHistory(trimmed);
+  };
 
-          <div className="ov-center">
+  const appendHistory = (record: SessionRecord) => {
+    saveHistoryToStorage([record, ...sessionHistory]);
+  };
+
+  const [showStatsModal, setShowStatsModal] = useState(false);
+  const stats = useMemo(
+    () => (showStatsModal ? computeStats(sessionHistory, Date.now()) : null),
+    [showStatsModal, sessionHistory]
+  );
+
+  // Draft copy for Save Sequence modal (names, times, and order)
+  const [draftChain, setDraftChain] = useState<string[]>([]);
+  const [draftById, setDraftById] = useState<Record<string, DraftTask>>({});
+  const [draftRoundsCount, setDraftRoundsCount] = useState(3);
+  const [draftAsText, setDraftAsText] = useState(false);
+  // Breaks and overtime policy saved with the draft: the live ones for a new
+  // session, the session's own when editing one
+  const [draftBreaks, setDraftBreaks] = useState<BreakSettings | undefined>();
+  const [draftOvertime, setDraftOvertime] = useState<
+    OvertimePolicy | undefined
+  >();
+  const [editingModalTask, setEditingModalTask] = useState<{
+    id: string;
+    field: "name" | "time";
+  } | null>(null);
+  const modalDragFrom = useRef<number | null>(null);
+
+  // Seed modal drafts from the live session when it opens for a new save;
+  // editing a saved session seeds them from that session instead
+  useEffect(() => {
+    if (showSaveModal && !editingSequenceId) {
+      // Blocks are edited as single entries; their steps stay in the library
+      const plan = collapseBlocks(tasks, chain);
+      setDraftChain(plan.chain);
+      const next: Record<string, DraftTask> = {};
+      plan.tasks.forEach(({ id, ...draft }) => (next[id] = draft));
+      setDraftById(next);
+      setDraftRoundsCount(roundsCount);
+      setDraftBreaks(breakSettings);
+      setDraftOvertime(overtimePolicy);
+      setEditingModalTask(null);
+      setDraftAsText(false);
+    }
+  }, [showSaveModal, chain, tasks, roundsCount]);
+  const [autocontinue, setAutocontinue] = useState(false);
+  const [rolloverMode, setRolloverMode] = useState<RolloverMode>("off");
+  // Debt never cuts a task's target below this
+  const [debtFloorSec, setDebtFloorSec] = useState(DEFAULT_DEBT_FLOOR_SEC);
+  const [rightArrowAction, setRightArrowAction] = useState<"skip" | "done">(
+    "skip"
+  );
+  const autoLatchRef = useRef(false);
+
+  const [rolloverOffsetSec, setRolloverOffsetSec] = useState(0);
+  const [heldCarrySec, setHeldCarrySec] = useState(0);
+  const [bankSec, setBankSec] = useState(0);
+  const [breakSettings, setBreakSettings] = useState<BreakSettings>({
+    ...DEFAULT_BREAKS,
+  });
+  const [overtimePolicy, setOvertimePolicy] = useState<OvertimePolicy>({
+    ...DEFAULT_OVERTIME,
+  });
+  const [onBreak, setOnBreak] = useState(false);
+  // Reps done so far on the current rep task
+  const [repCount, setRepCount] = useState(0);
+  const [showRolloverToast, setShowRolloverToast] = useState<number | null>(
+    null
+  );
+  const [weaselJump, setWeaselJump] = useState(false);
+  const nextRolloverRef = useRef(0);
+
+  /** ------- Live session snapshot / restore ------- */
+  const [pendingSession, setPendingSession] = useState<LiveSession | null>(
+    null
+  );
+  // Stays false until the stored snapshot has been restored or dismissed,
+  // so the initial defaults never overwrite it
+  const [sessionHydrated, setSessionHydrated] = useState(false);
+  /** The live session as it stands, for the snapshot and the undo stack */
+  const snapshotSession = (): LiveSession => ({
+    tasks,
+    chain,
+    roundsCount: clamp(Number(roundsCount) || 1, 1, MAX_ROUNDS),
+    rounds,
+    currentRoundIndex,
+    currentTaskIndex,
+    runState,
+    taskStartMs: taskStartMs.current,
+    pausedOffsetMs: pausedOffsetMs.current,
+    rolloverOffsetSec,
+    heldCarrySec,
+    bankSec,
+    repCount,
+    breaks: breakSettings,
+    overtime: overtimePolicy,
+    onBreak,
+    isSessionComplete,
+    sequenceName: activeSequenceName,
+    sessionStartedAt,
+    savedAt: Date.now(),
+  });
+  const persistSessionRef = useRef<() => void>(() => {});
+  persistSessionRef.current = () => {
+    if (sessionHydrated) saveLiveSession(snapshotSession());
+  };
+
+  const applyLiveSession = (s: LiveSession, keepProgress: boolean) => {
+    setTasks(s.tasks);
+    setChain(s.chain);
+    setRoundsCount(s.roundsCount);
+    setBreakSettings(s.breaks);
+    setOvertimePolicy(s.overtime);
+    setActiveSequenceName(s.sequenceName);
+    setSessionStartedAt(keepProgress ? s.sessionStartedAt : null);
+    if (!keepProgress) {
+      setRounds(
+        Array.from({ length: s.roundsCount }, () =>
+          s.chain.map((): TaskResult => ({ status: "incomplete" as TaskStatus, actualSec: null }))
+        )
+      );
+      const first = firstPosition(s.tasks, s.chain, s.roundsCount);
+      setCurrentRoundIndex(first.round);
+      setCurrentTaskIndex(first.task);
+      pausedOffsetMs.current = 0;
+      taskStartMs.current = null;
+      setRunState("idle");
+      setOnBreak(false);
+      setRepCount(0);
+      setIsSessionComplete(false);
+      nextRolloverRef.current = 0;
+      setRolloverOffsetSec(0);
+      setHeldCarrySec(0);
+      setBankSec(0);
+      return;
+    }
+    setRounds(s.rounds);
+    setCurrentRoundIndex(s.currentRoundIndex);
+    setCurrentTaskIndex(s.currentTaskIndex);
+    // A running timer keeps its wall-clock start, so time spent away counts
+    if (s.runState === "running" && s.taskStartMs) {
+      taskStartMs.current = s.taskStartMs;
+      pausedOffsetMs.current = 0;
+    } else {
+      taskStartMs.current = null;
+      pausedOffsetMs.current = s.pausedOffsetMs;
+    }
+    setRunState(s.runState === "running" && !s.taskStartMs ? "paused" : s.runState);
+    setOnBreak(s.onBreak);
+    setRepCount(s.repCount);
+    setIsSessionComplete(s.isSessionComplete);
+    nextRolloverRef.current = s.rolloverOffsetSec;
+    setRolloverOffsetSec(s.rolloverOffsetSec);
+    setHeldCarrySec(s.heldCarrySec);
+    setBankSec(s.bankSec);
+  };
+
+  // Restore the last live session on mount, asking first if it has gone stale
+  useEffect(() => {
+    const stored = loadLiveSession();
+    if (!stored) {
+      setSessionHydrated(true);
+      return;
+    }
+    if (
+      hasSessionProgress(stored) &&
+      Date.now() - stored.savedAt > STALE_SESSION_MS
+    ) {
+      setPendingSession(stored);
+      return;
+    }
+    applyLiveSession(stored, true);
+    setSessionHydrated(true);
+  }, []);
+
+  const resolvePendingSession = (resume: boolean) => {
+    if (pendingSession) {
+      // A discarded run still belongs in the history log
+      if (!resume && pendingSession.sessionStartedAt !== null) {
+        appendHistory(
+          buildSessionRecord(
+            pendingSession.sequenceName,
+            pendingSession.sessionStartedAt,
+            pendingSession.savedAt,
+            pendingSession.tasks,
+            pendingSession.chain,
+            pendingSession.rounds,
+            {
+              rollover: rolloverMode !== "off",
+              rolloverMode,
+              autocontinue,
+              breaks: pendingSession.breaks,
+              overtime: pendingSession.overtime,
+            },
+            pendingSession.isSessionComplete
+          )
+        );
+      }
+      applyLiveSession(pendingSession, resume);
+    }
+    setPendingSession(null);
+    setSessionHydrated(true);
+  };
+
+  useEffect(() => {
+    persistSessionRef.current();
+  }, [
+    tasks,
+    chain,
+    roundsCount,
+    rounds,
+    currentRoundIndex,
+    currentTaskIndex,
+    runState,
+    rolloverOffsetSec,
+    heldCarrySec,
+    bankSec,
+    repCount,
+    breakSettings,
+    overtimePolicy,
+    onBreak,
+    isSessionComplete,
+    activeSequenceName,
+    sessionStartedAt,
+    sessionHydrated,
+  ]);
+
+  useEffect(() => {
+    if (runState !== "running") return;
+    const id = window.setInterval(
+      () => persistSessionRef.current(),
+      LIVE_SESSION_HEARTBEAT_MS
+    );
+    return () => window.clearInterval(id);
+  }, [runState]);
+
+  // Flush the latest timer refs when the page is hidden or closed
+  useEffect(() => {
+    const flush = () => persistSessionRef.current();
+    const onVisibility = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      document.removeEventListener("visibilitychange", onVisibility);
+    };
+  }, []);
+
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const id = setInterval(() => setTick((t) => t + 1), 25);
+    return () => clearInterval(id);
+  }, []);
+
+  const wakeSchedulerRef = useRef<WakeScheduler | null>(null);
+  useEffect(() => {
+    const scheduler = createWakeScheduler(() => setTick((t) => t + 1));
+    wakeSchedulerRef.current = scheduler;
+    return () => {
+      scheduler.dispose();
+      wakeSchedulerRef.current = null;
+    };
+  }, []);
+
+  /** ------- Derived current task/time ------- */
+  const currentTaskId = chain[currentTaskIndex];
+  const currentTask = byId(currentTaskId);
+  // A break runs before the task at the current position, after the round before it
+  const currentBreakSec = onBreak
+    ? breakAfterRound(breakSettings, currentRoundIndex - 1, roundsCount)
+    : 0;
+  const breakLabel =
+    onBreak && isLongBreak(breakSettings, currentRoundIndex - 1)
+      ? "Long break"
+      : "Short break";
+  const effectiveTargetSec =
+    (onBreak ? currentBreakSec : currentTask.targetSec) + rolloverOffsetSec;
+  // Count-up tasks never run out; they only end when marked done
+  const openEnded = !onBreak && isOpenEnded(currentTask);
+  const activeCues = (!onBreak && currentTask.cues) || warningCues;
+  const activeOvertime = (!onBreak && currentTask.overtime) || overtimePolicy;
+  // Marks beyond the task's length would fire the moment it starts
+  const cueMarks = openEnded
+    ? []
+    : cueThresholds(activeCues).filter((sec) => sec < effectiveTargetSec);
+
+  const nowMs = Date.now();
+  const elapsedMs =
+    runState === "running"
+      ? taskStartMs.current
+        ? nowMs - taskStartMs.current
+        : 0
+      : pausedOffsetMs.current;
+  const elapsedSec = Math.floor(elapsedMs / 1000);
+  const remainingTaskSec = Math.max(0, effectiveTargetSec - elapsedSec);
+  // Break and count-up time never count toward the round or session targets
+  const taskElapsedSec = onBreak || openEnded ? 0 : elapsedSec;
+
+  /** ------- Overtime ------- */
+  const isOvertime = !openEnded && elapsedSec > effectiveTargetSec;
+  const [overtimeBlink, setOvertimeBlink] = useState(true);
+  // Seconds-left marks already cued for this run of the task; 0 is the end
+  // ring. Pausing keeps them, so resuming never repeats a cue
+  const [firedCues, setFiredCues] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (!isOvertime) {
+      setOvertimeBlink(true);
+      return;
+    }
+    const id = window.setInterval(() => setOvertimeBlink((b) => !b), 500);
+    return () => window.clearInterval(id);
+  }, [isOvertime]);
+
+  // Wall-clock moment the current task runs out, while the timer is running
+  const taskDeadlineMs =
+    runState === "running" && taskStartMs.current && !openEnded
+      ? taskStartMs.current + effectiveTargetSec * 1000
+      : null;
+
+  const overtimeNotifyMs =
+    taskDeadlineMs !== null &&
+    notificationPrefs.enabled &&
+    notificationPrefs.overtimeMinutes > 0
+      ? taskDeadlineMs + notificationPrefs.overtimeMinutes * 60 * 1000
+      : null;
+
+  // Wall-clock moment the overtime policy completes or skips the task itself
+  const overtimeForceMs =
+    taskDeadlineMs !== null &&
+    (activeOvertime.mode === "complete" || activeOvertime.mode === "skip")
+      ? taskDeadlineMs + activeOvertime.graceSec * 1000
+      : null;
+  // Re-rings so far latch in firedCues as negative marks (seconds over)
+  const reRingsDone = firedCues.filter((sec) => sec < 0).length;
+  const reRingMs =
+    taskDeadlineMs !== null && activeOvertime.mode === "escalate"
+      ? taskDeadlineMs +
+        reRingOffsetSec(activeOvertime.graceSec, reRingsDone) * 1000
+      : null;
+
+  const cueWakeMs =
+    taskDeadlineMs !== null
+      ? cueMarks.map((sec) => taskDeadlineMs - sec * 1000)
+      : [];
+  // Spoken warnings need waking for too when the tab is hidden
+  const warningWakeMs =
+    taskDeadlineMs !== null && voicePrefs.enabled
+      ? VOICE_WARNINGS.map(({ sec }) => taskDeadlineMs - sec * 1000)
+      : [];
+
+  useEffect(() => {
+    wakeSchedulerRef.current?.schedule(
+      [
+        taskDeadlineMs,
+        overtimeNotifyMs,
+        overtimeForceMs,
+        reRingMs,
+        ...warningWakeMs,
+        ...cueWakeMs,
+      ].filter((t): t is number => t !== null && t > Date.now())
+    );
+  }, [
+    taskDeadlineMs,
+    overtimeNotifyMs,
+    overtimeForceMs,
+    reRingMs,
+    warningWakeMs.join(),
+    cueWakeMs.join(),
+  ]);
+
+  useEffect(() => {
+    if (
+      runState === "running" &&
+      remainingTaskSec === 0 &&
+      firedCues.indexOf(0) === -1 &&
+      !openEnded
+    ) {
+      if (
+        taskDeadlineMs === null ||
+        Date.now() - taskDeadlineMs < STALE_CUE_MS
+      ) {
+        playSound("taskEnd", onBreak ? undefined : currentTask.endSound);
+        const next = nextPosition(currentRoundIndex, currentTaskIndex);
+        if (onBreak)
+          notify(`${breakLabel} is over`, `Next: ${currentTask.name}`, !autocontinue);
+        else
+          notify(
+            `Time's up: ${currentTask.name}`,
+            next?.round === currentRoundIndex
+              ? `Next: ${byId(chain[next.task]).name}`
+              : "Last task of the round",
+            !autocontinue
+          );
+      }
+      setFiredCues((fired) => [...fired, 0]);
+    }
+  }, [remainingTaskSec, runState, firedCues, taskDeadlineMs]);
+
+  // Warning cues ahead of the end. Marks passed while the tab slept, or
+  // skipped over by a jump in time, latch without sounding
+  useEffect(() => {
+    if (runState !== "running" || openEnded) return;
+    const due = cueMarks.filter(
+      (sec) => remainingTaskSec <= sec && firedCues.indexOf(sec) === -1
+    );
+    if (!due.length) return;
+    setFiredCues((fired) => [...fired, ...due]);
+    const fresh = due.filter((sec) => sec - remainingTaskSec <= 1);
+    if (!fresh.length) return;
+    const tick =
+      activeCues.countdown &&
+      fresh.every((sec) => COUNTDOWN_TICKS.indexOf(sec) !== -1);
+    playSound(tick ? "countdown" : "warning");
+    triggerCuePulse();
+  }, [remainingTaskSec, runState, firedCues]);
+
+  // Escalating overtime rings again at ever shorter gaps until it's dealt with
+  useEffect(() => {
+    if (reRingMs === null || Date.now() < reRingMs) return;
+    const overSec = reRingOffsetSec(activeOvertime.graceSec, reRingsDone);
+    setFiredCues((fired) => [...fired, -overSec]);
+    if (Date.now() - reRingMs >= STALE_CUE_MS) return;
+    playSound("taskEnd", onBreak ? undefined : currentTask.endSound);
+    triggerCuePulse();
+  });
+
+  // Announce each task or break as it starts; pause and resume stay quiet
+  const announcedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (runState === "idle") {
+      announcedRef.current = null;
+      return;
+    }
+    const key = `${currentRoundIndex}:${currentTaskIndex}:${onBreak}`;
+    if (runState !== "running" || announcedRef.current === key) return;
+    announcedRef.current = key;
+    announce(
+      "transition",
+      onBreak
+        ? `${breakLabel}, ${spokenDuration(effectiveTargetSec)}. Next: ${
+            currentTask.name
+          }`
+        : isRepTask(currentTask)
+        ? `${currentTask.name}, ${
+            currentTask.targetReps ?? DEFAULT_TARGET_REPS
+          } reps`
+        : openEnded
+        ? `${currentTask.name}, open ended`
+        : `${currentTask.name}, ${spokenDuration(effectiveTargetSec)}`
+    );
+  }, [runState, currentRoundIndex, currentTaskIndex, onBreak]);
+
+  // Each warning speaks once as the task runs down past it, and re-arms when
+  // the remaining time goes back above it (restart, edits, the next task)
+  const spokenWarningsRef = useRef<VoiceEvent[]>([]);
+  useEffect(() => {
+    VOICE_WARNINGS.forEach(({ event, sec, text }) => {
+      const spoken = spokenWarningsRef.current.indexOf(event) !== -1;
+      if (remainingTaskSec > sec || openEnded) {
+        if (spoken)
+          spokenWarningsRef.current = spokenWarningsRef.current.filter(
+            (e) => e !== event
+          );
+        return;
+      }
+      if (
+        spoken ||
+        runState !== "running" ||
+        effectiveTargetSec <= sec ||
+        remainingTaskSec === 0 ||
+        sec - remainingTaskSec > 3 // too late to be useful
+      )
+        return;
+      spokenWarningsRef.current = [...spokenWarningsRef.current, event];
+      announce(event, text);
+    });
+  }, [remainingTaskSec, runState]);
+
+  useEffect(() => {
+    if (
+      overtimeNotifyMs === null ||
+      overtimeNotifiedRef.current ||
+      Date.now() < overtimeNotifyMs
+    )
+      return;
+    overtimeNotifiedRef.current = true;
+    notify(
+      `${onBreak ? breakLabel : currentTask.name} is ${
+        notificationPrefs.overtimeMinutes
+      } min over`,
+      "Mark it done, skip it or add a minute.",
+      true
+    );
+  });
+
+  useEffect(() => {
+    setFiredCues([]);
+    autoLatchRef.current = false;
+    overtimeNotifiedRef.current = false;
+  }, [currentTaskIndex, currentRoundIndex]);
+
+  useEffect(() => {
+    setRolloverOffsetSec(nextRolloverRef.current);
+  }, [currentTaskIndex, currentRoundIndex]);
+
+  /** Recorded time in a round, leaving out count-up tasks that have no target */
+  const timedActualSec = (row: TaskResult[] = []) =>
+    row.reduce(
+      (s, t, i) => s + (isOpenEnded(byId(chain[i])) ? 0 : t?.actualSec || 0),
+      0
+    );
+
+  const roundElapsedActual = timedActualSec(rounds[currentRoundIndex]);
+
+  const curRoundTarget = useMemo(
+    () => roundTargetSec(currentRoundIndex),
+    [rounds, tasks, chain, currentRoundIndex]
+  );
+  const fullSessionTarget = useMemo(
+    () => sessionTargetSec(),
+    [rounds, tasks, chain, roundsCount]
+  );
+
+  const roundRemainingSec = Math.max(
+    0,
+    curRoundTarget - (roundElapsedActual + taskElapsedSec)
+  );
+  const sessionElapsedActual = rounds
+    .slice(0, currentRoundIndex)
+    .reduce((s, row) => s + timedActualSec(row), 0);
+  const sessionRemainingSec = Math.max(
+    0,
+    fullSessionTarget -
+      (sessionElapsedActual + roundElapsedActual + taskElapsedSec)
+  );
+
+  type LightColor = "gray" | "yellow" | "red" | "orange" | "green" | "neutral";
+
+  const taskLightColor = (i: number): LightColor => {
+    const res = rounds[currentRoundIndex]?.[i];
+    const target = byId(chain[i]).targetSec;
+    if (res?.status === "skipped" || !inRound(currentRoundIndex, i))
+      return "gray";
+    // Count-up tasks have nothing to be early or late against
+    if (isOpenEnded(byId(chain[i]))) {
+      const done = i < currentTaskIndex && res && res.status !== "incomplete";
+      const running =
+        i === currentTaskIndex && runState !== "idle" && !onBreak;
+      return done || running ? "neutral" : "gray";
+    }
+    if (i < currentTaskIndex) {
+      if (!res || res.status === "incomplete") return "gray";
+      if (res.status === "complete_over") return "orange";
+      return "green";
+    }
+    if (i === currentTaskIndex) {
+      if (runState === "idle" || onBreak) return "gray";
+      return elapsedSec > target ? "red" : "yellow";
+    }
+    return "gray";
+  };
+
+  const roundLightColor = (rIdx: number): LightColor => {
+    if (rIdx > currentRoundIndex) return "gray";
+    const targetForRound = roundTargetSec(rIdx);
+
+    // Check if this round is complete (past rounds OR current round with all tasks done)
+    if (rIdx <= currentRoundIndex) {
+      const row = rounds[rIdx] ?? [];
+      const anyIncomplete = row.some(
+        (t, i) => t.status === "incomplete" && inRound(rIdx, i)
+      );
+
+      // If all tasks in this round are complete, color based on performance
+      if (!anyIncomplete) {
+        const actual = timedActualSec(row);
+        return actual > targetForRound ? "orange" : "green";
+      }
+    }
+
+    // For incomplete current round
+    if (rIdx === currentRoundIndex) {
+      if (runState === "idle" || onBreak) return "gray";
+      const spent = roundElapsedActual + elapsedSec;
+      return spent > targetForRound ? "red" : "yellow";
+    }
+
+    return "gray";
+  };
+
+  const [cuePulse, setCuePulse] = useState(false);
+  const triggerCuePulse = () => {
+    setCuePulse(false);
+    requestAnimationFrame(() => setCuePulse(true));
+  };
+
+  const [pulseRound, setPulseRound] = useState(false);
+  const [pulseTotal, setPulseTotal] = useState(false);
+  const triggerRoundPulse = () => {
+    setPulseRound(false);
+    requestAnimationFrame(() => setPulseRound(true));
+  };
+  const triggerTotalPulse = () => {
+    setPulseTotal(false);
+    requestAnimationFrame(() => setPulseTotal(true));
+  };
+
+  const [showRoundToast, setShowRoundToast] = useState(false);
+  const [roundToastText, setRoundToastText] = useState("Round complete!");
+  const triggerRoundToast = (text?: string) => {
+    setRoundToastText(text ?? "Round complete!");
+    setShowRoundToast(false);
+    requestAnimationFrame(() => setShowRoundToast(true));
+  };
+
+  /** ------- System notifications ------- */
+  /** Notify only while the timer isn't on screen; the page has its own cues */
+  const notify = (title: string, body: string, withActions = false) => {
+    if (!notificationPrefs.enabled || document.visibilityState === "visible")
+      return;
+    showSystemNotification(notificationRegRef.current, title, body, withActions);
+  };
+
+  const completeRound = (rIdx: number) => {
+    const breakSec = breakAfterRound(breakSettings, rIdx, roundsCount);
+    playSound("roundDone");
+    announce(
+      "roundDone",
+      `Round ${rIdx + 1} of ${roundsCount} complete` +
+        (breakSec > 0
+          ? `. ${
+              isLongBreak(breakSettings, rIdx) ? "Long" : "Short"
+            } break, ${spokenDuration(breakSec)}`
+          : "")
+    );
+    triggerRoundToast(`Round ${rIdx + 1} complete!`);
+    notify(
+      `Round ${rIdx + 1} of ${roundsCount} complete`,
+      breakSec > 0
+        ? `${isLongBreak(breakSettings, rIdx) ? "Long" : "Short"} break: ${fmt(
+            breakSec
+          )}`
+        : "The next round is starting."
+    );
+  };
+
+  const completeSession = () => {
+    playSound("sessionDone");
+    triggerRoundToast("Session complete! 🎉");
+    setRunState("idle");
+    setIsSessionComplete(true);
+    notify("Session complete! 🎉", `${roundsCount} rounds finished.`);
+  };
+
+  const markSessionStarted = () =>
+    setSessionStartedAt((startedAt) => startedAt ?? Date.now());
+
+  // Log the run once it finishes; clearing the start time latches this
+  useEffect(() => {
+    if (!isSessionComplete || sessionStartedAt === null) return;
+    appendHistory(
+      buildSessionRecord(
+        activeSequenceName,
+        sessionStartedAt,
+        Date.now(),
+        tasks,
+        chain,
+        rounds,
+        {
+          rollover: rolloverMode !== "off",
+          rolloverMode,
+          autocontinue,
+          breaks: breakSettings,
+          overtime: overtimePolicy,
+        },
+        true
+      )
+    );
+    setSessionStartedAt(null);
+  }, [isSessionComplete, sessionStartedAt]);
+
+  // Read out a short summary once the last round's results are in
+  useEffect(() => {
+    if (!isSessionComplete) return;
+    let actualSec = 0;
+    let onTime = 0;
+    let over = 0;
+    let skipped = 0;
+    rounds.forEach((row) =>
+      row.forEach((res) => {
+        actualSec += res.actualSec || 0;
+        if (res.status === "complete_over") over++;
+        else if (res.status === "skipped") skipped++;
+        else if (res.status !== "incomplete") onTime++;
+      })
+    );
+    announce(
+      "sessionDone",
+      `Session complete. ${roundsCount} round${
+        roundsCount === 1 ? "" : "s"
+      } in ${spokenDuration(actualSec)}. ${onTime} on time, ${over} over` +
+        (skipped ? `, ${skipped} skipped.` : ".")
+    );
+  }, [isSessionComplete]);
+
+  /** The current run as an abandoned record, if started but not finished */
+  const abandonedRecord = () =>
+    sessionStartedAt === null || isSessionComplete
+      ? null
+      : buildSessionRecord(
+          activeSequenceName,
+          sessionStartedAt,
+          Date.now(),
+          tasks,
+          chain,
+          rounds,
+          {
+            rollover: rolloverMode !== "off",
+            rolloverMode,
+            autocontinue,
+            breaks: breakSettings,
+            overtime: overtimePolicy,
+          },
+          false
+        );
+
+  /** Log the current run as abandoned if it was started but never finished */
+  const recordAbandonedSession = () => {
+    const record = abandonedRecord();
+    if (!record) return;
+    appendHistory(record);
+    setSessionStartedAt(null);
+  };
+
+  /** Round rules can leave nothing to run; say so rather than start anyway */
+  const refuseEmptyPlan = () => {
+    if (hasScheduledTask(tasks, chain, roundsCount)) return false;
+    alert(
+      "No task runs in any round. Change the tasks' round rules, or the " +
+        "number of rounds, so at least one of them is scheduled."
+    );
+    return true;
+  };
+
+  const startOrResume = () => {
+    if (runState === "running" || refuseEmptyPlan()) return;
+    markSessionStarted();
+    setRunState("running");
+    const alreadyElapsed = pausedOffsetMs.current;
+    taskStartMs.current = Date.now() - alreadyElapsed;
+    playStart();
+  };
+
+  const pauseAll = () => {
+    if (runState !== "running") {
+      setRunState("paused");
+      return;
+    }
+    setRunState("paused");
+    pausedOffsetMs.current = elapsedMs;
+    taskStartMs.current = null;
+    playPause();
+  };
+
+  const restartCurrent = () => {
+    if (refuseEmptyPlan()) return;
+    recordUndo(`Restart ${onBreak ? breakLabel : currentTask.name}`, {
+      toast: true,
+    });
+    playRestartSound();
+    setRepCount(0);
+    pausedOffsetMs.current = 0;
+    taskStartMs.current = Date.now();
+    markSessionStarted();
+    setRunState("running");
+    setRounds((prev) => {
+      const copy = prev.map((r) => r.map((t) => ({ ...t })));
+      copy[currentRoundIndex][currentTaskIndex] = {
+        status: "incomplete" as TaskStatus,
+        actualSec: null,
+      };
+      return copy;
+    });
+    setFiredCues([]);
+    autoLatchRef.current = false;
+    overtimeNotifiedRef.current = false;
+  };
+
+  /** Give the current task extra time on top of its target */
+  const extendCurrentTask = (sec: number) => {
+    setRolloverOffsetSec((offset) => offset + sec);
+    setFiredCues([]);
+    autoLatchRef.current = false;
+    overtimeNotifiedRef.current = false;
+    playIncrease();
+  };
+
+  /**
+   * Result fields noting the overtime policy a task ran over under; escalate
+   * only counts once it has actually re-rung
+   */
+  const overtimeFields = (): Partial<TaskResult> =>
+    isOvertime &&
+    !onBreak &&
+    activeOvertime.mode !== "count" &&
+    (activeOvertime.mode !== "escalate" || reRingsDone > 0)
+      ? { overtime: activeOvertime.mode }
+      : {};
+
+  const completeCurrentTask = (
+    actualSec: number,
+    reps = repCount,
+    extra: Partial<TaskResult> = {}
+  ) => {
+    // Carry, debt and banked time move the target the task is held to
+    const target = effectiveTargetSec;
+    const clamped = Math.max(0, Math.floor(actualSec));
+    const targetReps = currentTask.targetReps ?? DEFAULT_TARGET_REPS;
+    const status: TaskStatus = isRepTask(currentTask)
+      ? reps < targetReps
+        ? "complete_under"
+        : "complete_at"
+      : isOpenEnded(currentTask)
+      ? "complete_at"
+      : clamped < target
+      ? "complete_under"
+      : clamped === target
+      ? "complete_at"
+      : "complete_over";
+    setRounds((prev) => {
+      const copy = prev.map((r) => r.map((t) => ({ ...t })));
+      copy[currentRoundIndex][currentTaskIndex] = {
+        ...copy[currentRoundIndex][currentTaskIndex],
+        status,
+        actualSec: clamped,
+        ...(!isOpenEnded(currentTask) && target !== currentTask.targetSec
+          ? { targetSec: target }
+          : {}),
+        ...(isRepTask(currentTask) ? { reps } : {}),
+        ...extra,
+      };
+      return copy;
+    });
+  };
+
+  const markSkipped = (
+    rIdx: number,
+    tIdx: number,
+    extra: Partial<TaskResult> = {}
+  ) => {
+    setRounds((prev) => {
+      const copy = prev.map((r) => r.map((t) => ({ ...t })));
+      copy[rIdx][tIdx] = {
+        ...copy[rIdx][tIdx],
+        status: "skipped",
+        actualSec: 0,
+        ...extra,
+      };
+      return copy;
+    });
+  };
+
+  /** Jump to a task and start it, by default from now */
+  const goToTask = (roundIdx: number, taskIdx: number, startMs = Date.now()) => {
+    const clampedRound = clamp(roundIdx, 0, Math.max(0, roundsCount - 1));
+    const clampedTask = clamp(taskIdx, 0, Math.max(0, chain.length - 1));
+    setCurrentRoundIndex(clampedRound);
+    setCurrentTaskIndex(clampedTask);
+    pausedOffsetMs.current = 0;
+    taskStartMs.current = startMs;
+    markSessionStarted();
+    setRunState("running");
+    setOnBreak(false);
+    setRepCount(0);
+    setFiredCues([]);
+    autoLatchRef.current = false;
+  };
+
+  /** Move on to `next`, taking the configured break first when a round ends */
+  const advanceTo = (
+    next: { round: number; task: number },
+    startMs = Date.now()
+  ) => {
+    const roundEnded = next.round !== currentRoundIndex;
+    if (roundEnded) completeRound(currentRoundIndex);
+    goToTask(next.round, next.task, startMs);
+    if (roundEnded && breakAfterRound(breakSettings, currentRoundIndex, roundsCount) > 0)
+      setOnBreak(true);
+  };
+
+  /** Finish the break and start the task waiting behind it */
+  const endBreak = (startMs = Date.now()) => {
+    nextRolloverRef.current = heldCarrySec;
+    setRolloverOffsetSec(heldCarrySec);
+    setHeldCarrySec(0);
+    overtimeNotifiedRef.current = false;
+    goToTask(currentRoundIndex, currentTaskIndex, startMs);
+  };
+
+  /**
+   * Hand a carry to the task at `next`, or hold it through a break between
+   * rounds (which isn't shortened or stretched). Debt never takes a timed
+   * task below the floor. Returns what was passed on
+   */
+  const passCarry = (next: { round: number; task: number }, carry: number) => {
+    const sameRound = next.round === currentRoundIndex;
+    if (
+      rolloverMode === "off" ||
+      rolloverMode === "bank" ||
+      (rolloverMode === "next" && !sameRound)
+    )
+      return 0;
+    const nextTask = byId(chain[next.task]);
+    const landed =
+      carry < 0 && !isOpenEnded(nextTask)
+        ? Math.max(carry, Math.min(0, debtFloorSec - nextTask.targetSec))
+        : carry;
+    if (!landed) return 0;
+    if (
+      !sameRound &&
+      breakAfterRound(breakSettings, currentRoundIndex, roundsCount) > 0
+    )
+      setHeldCarrySec(landed);
+    else nextRolloverRef.current = landed;
+    return landed;
+  };
+
+  /**
+   * Pass the time a task finished under its target (or, in debt mode, over
+   * it) on to `next` as the rollover mode says, or pay savings into the bank.
+   * Count-up and rep tasks have no target to stretch or cut, so a carry
+   * handed to one waits there and moves on to the next timed task
+   */
+  const settleRollover = (
+    next: { round: number; task: number } | null,
+    actualSec: number
+  ) => {
+    nextRolloverRef.current = 0;
+    if (!next) return;
+    if (openEnded) {
+      passCarry(next, rolloverOffsetSec);
+      return;
+    }
+    const delta = effectiveTargetSec - actualSec;
+    if (rolloverMode === "bank") {
+      if (delta <= 0) return;
+      setBankSec((sec) => sec + delta);
+      setShowRolloverToast(delta);
+      return;
+    }
+    const carry = passCarry(
+      next,
+      rolloverMode === "debt" ? delta : Math.max(0, delta)
+    );
+    if (carry) setShowRolloverToast(carry);
+  };
+
+  /** Add everything in the bank to the current task */
+  const spendBank = () => {
+    if (bankSec <= 0 || onBreak || openEnded) return;
+    extendCurrentTask(bankSec);
+    setBankSec(0);
+  };
+
+  const onNext = () => finishCurrentTask(repCount);
+
+  /** Mark the current task done with `reps` counted, and move on */
+  const finishCurrentTask = (reps: number) => {
+    recordUndo(`Finish ${onBreak ? breakLabel : currentTask.name}`);
+    playSound("taskDone");
+    if (onBreak) {
+      endBreak();
+      return;
+    }
+    const next = nextPosition(currentRoundIndex, currentTaskIndex);
+    settleRollover(next, elapsedSec);
+    completeCurrentTask(elapsedSec, reps, overtimeFields());
+
+    if (!next) {
+      completeSession();
+      return;
+    }
+    advanceTo(next);
+  };
+
+  const onSkip = () => {
+    recordUndo(`Skip ${onBreak ? breakLabel : currentTask.name}`, {
+      toast: true,
+    });
+    playNav();
+    if (onBreak) {
+      endBreak();
+      return;
+    }
+    const next = nextPosition(currentRoundIndex, currentTaskIndex);
+    markSkipped(currentRoundIndex, currentTaskIndex, overtimeFields());
+    nextRolloverRef.current = 0;
+    if (!next) {
+      completeSession();
+      return;
+    }
+    advanceTo(next);
+  };
+
+  const onPrev = () => {
+    if (refuseEmptyPlan()) return;
+    recordUndo("Back to the previous task", { toast: true });
+    playNav();
+    nextRolloverRef.current = 0;
+    setHeldCarrySec(0);
+    const prev = prevPosition(currentRoundIndex, currentTaskIndex);
+    if (prev) {
+      setRounds((rows) => {
+        const copy = rows.map((r) => r.map((t) => ({ ...t })));
+        copy[prev.round][prev.task] = {
+          status: "incomplete" as TaskStatus,
+          actualSec: null,
+        };
+        return copy;
+      });
+      goToTask(prev.round, prev.task);
+      return;
+    }
+    setRounds((prev) => {
+      const copy = prev.map((r) => r.map((t) => ({ ...t })));
+      copy[currentRoundIndex][currentTaskIndex] = {
+        status: "incomplete" as TaskStatus,
+        actualSec: null,
+      };
+      return copy;
+    });
+    pausedOffsetMs.current = 0;
+    taskStartMs.current = Date.now();
+    setRunState("running");
+    setRepCount(0);
+    setFiredCues([]);
+    autoLatchRef.current = false;
+  };
+
+  /** Count a rep up or down; reaching the target completes the task */
+  const changeReps = (delta: 1 | -1) => {
+    const reps = Math.max(0, repCount + delta);
+    setRepCount(reps);
+    if (delta < 0) {
+      playDecrease();
+      return;
+    }
+    if (runState !== "running") startOrResume();
+    if (reps >= (currentTask.targetReps ?? DEFAULT_TARGET_REPS))
+      finishCurrentTask(reps);
+    else playIncrease();
+  };
+
+  useEffect(() => {
+    if (
+      !autocontinue ||
+      openEnded ||
+      runState !== "running" ||
+      remainingTaskSec !== 0 ||
+      autoLatchRef.current
+    )
+      return;
+    autoLatchRef.current = true;
+    // The next task starts at this one's deadline rather than now, so a tab
+    // that was hidden across several deadlines catches up task by task
+    const deadlineMs = taskDeadlineMs ?? Date.now();
+    if (Date.now() - deadlineMs < STALE_CUE_MS) playSound("taskDone");
+    if (onBreak) {
+      endBreak(deadlineMs);
+      return;
+    }
+    // It ran exactly its carried target, the same as pressing Done on time
+    const next = nextPosition(currentRoundIndex, currentTaskIndex);
+    settleRollover(next, effectiveTargetSec);
+    completeCurrentTask(effectiveTargetSec);
+    if (!next) {
+      completeSession();
+    } else {
+      advanceTo(next, deadlineMs);
+    }
+  }, [
+    autocontinue,
+    onBreak,
+    remainingTaskSec,
+    runState,
+    currentTaskIndex,
+    currentRoundIndex,
+    chain,
+    roundsCount,
+    byId,
+  ]);
+
+  // Complete or skip an overrun task once its grace period is up. Like
+  // autocontinue, the next task starts from that moment rather than now
+  useEffect(() => {
+    if (
+      overtimeForceMs === null ||
+      autoLatchRef.current ||
+      Date.now() < overtimeForceMs
+    )
+      return;
+    autoLatchRef.current = true;
+    const skip = activeOvertime.mode === "skip";
+    if (Date.now() - overtimeForceMs < STALE_CUE_MS) {
+      if (skip) playNav();
+      else playSound("taskDone");
+    }
+    if (onBreak) {
+      endBreak(overtimeForceMs);
+      return;
+    }
+    notify(
+      `${currentTask.name} was ${skip ? "skipped" : "marked done"}`,
+      `It ran ${fmt(activeOvertime.graceSec)} over its target.`
+    );
+    const forced: Partial<TaskResult> = {
+      overtime: activeOvertime.mode,
+      forced: true,
+    };
+    const next = nextPosition(currentRoundIndex, currentTaskIndex);
+    const actualSec = effectiveTargetSec + activeOvertime.graceSec;
+    nextRolloverRef.current = 0;
+    if (skip) markSkipped(currentRoundIndex, currentTaskIndex, forced);
+    else {
+      settleRollover(next, actualSec);
+      completeCurrentTask(actualSec, repCount, forced);
+    }
+    if (!next) completeSession();
+    else advanceTo(next, overtimeForceMs);
+  });
+
+  // Relay Done / Skip / +1 min clicks from notification action buttons
+  const notificationActionRef = useRef<(action: NotificationAction) => void>(
+    () => {}
+  );
+  notificationActionRef.current = (action) => {
+    if (isSessionComplete || runState === "idle") return;
+    if (action === "done") onNext();
+    else if (action === "skip") onSkip();
+    else if (action === "extend") extendCurrentTask(60);
+  };
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === "weasel-notification-action")
+        notificationActionRef.current(e.data.action);
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () =>
+      navigator.serviceWorker.removeEventListener("message", onMessage);
+  }, []);
+
+  /** ------- Undo / redo ------- */
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const [undoToast, setUndoToast] = useState<{
+    text: string;
+    action: "undo" | "redo";
+  } | null>(null);
+  const undoToastTimerRef = useRef<number | undefined>(undefined);
+
+  const showUndoToast = (text: string, action: "undo" | "redo") => {
+    window.clearTimeout(undoToastTimerRef.current);
+    setUndoToast({ text, action });
+    undoToastTimerRef.current = window.setTimeout(
+      () => setUndoToast(null),
+      UNDO_TOAST_MS
+    );
+  };
+
+  // The stepper lets roundsCount run ahead of the rows while typing
+  const undoSnapshot = () => ({
+    ...snapshotSession(),
+    roundsCount: rounds.length,
+  });
+
+  /**
+   * Remember the state before an edit or navigation so it can be undone.
+   * Consecutive entries with the same `merge` key keep only the first state,
+   * so typing into a field is one step rather than one per keystroke
+   */
+  const recordUndo = (
+    label: string,
+    { toast = false, merge }: { toast?: boolean; merge?: string } = {}
+  ) => {
+    const top = undoStack[undoStack.length - 1];
+    if (!merge || top?.merge !== merge)
+      setUndoStack((stack) => [
+        ...stack.slice(-(MAX_UNDO - 1)),
+        { label, session: undoSnapshot(), ...(merge ? { merge } : {}) },
+      ]);
+    setRedoStack([]);
+    if (toast) showUndoToast(label, "undo");
+  };
+
+  /**
+   * Keep the history log in step with a snapshot being restored: the run it
+   * leaves behind is logged as abandoned, and a run it brings back (say, by
+   * undoing Clear all) loses the abandoned record written when it was left
+   */
+  const syncRunHistory = (target: LiveSession) => {
+    if (target.sessionStartedAt === sessionStartedAt) return;
+    const left = abandonedRecord();
+    const history = sessionHistory.filter(
+      (r) => r.completed || r.startedAt !== target.sessionStartedAt
+    );
+    if (left || history.length !== sessionHistory.length)
+      saveHistoryToStorage(left ? [left, ...history] : history);
+  };
+
+  const undo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    syncRunHistory(entry.session);
+    setUndoStack((stack) => stack.slice(0, -1));
+    setRedoStack((stack) => [
+      ...stack,
+      { label: entry.label, session: undoSnapshot() },
+    ]);
+    applyLiveSession(entry.session, true);
+    showUndoToast(`Undid: ${entry.label}`, "redo");
+    playNav();
+  };
+
+  const redo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    syncRunHistory(entry.session);
+    setRedoStack((stack) => stack.slice(0, -1));
+    setUndoStack((stack) => [
+      ...stack,
+      { label: entry.label, session: undoSnapshot() },
+    ]);
+    applyLiveSession(entry.session, true);
+    showUndoToast(`Redid: ${entry.label}`, "undo");
+    playNav();
+  };
+
+  /** ------- Keyboard shortcuts ------- */
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutHandlerRef.current = (e) => {
+    if (remappingAction) {
+      e.preventDefault();
+      // Keep listening through a modifier press for the key that follows it
+      if (MODIFIER_KEYS.indexOf(e.key) !== -1) return;
+      if (e.key !== "Escape") rebindShortcut(remappingAction, normalizeKey(e.key));
+      setRemappingAction(null);
+      return;
+    }
+    const dialogOpen =
+      showSettings ||
+      showSaveModal ||
+      showLoadModal ||
+      showConfirmModal ||
+      showShortcutHelp ||
+      showHistoryModal ||
+      showStatsModal ||
+      !!notesTaskId ||
+      !!pendingImport ||
+      !!sharedSessions ||
+      !!qrSession ||
+      !!pendingSession;
+    // Ctrl+Z / Ctrl+Shift+Z; fields keep their own text undo
+    if (
+      (e.ctrlKey || e.metaKey) &&
+      !e.altKey &&
+      e.key.toLowerCase() === "z" &&
+      !isTypingTarget(e.target) &&
+      !dialogOpen
+    ) {
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+    if (showShortcutHelp && e.key === "Escape") {
+      setShowShortcutHelp(false);
+      return;
+    }
+    const key = normalizeKey(e.key);
+    const action = SHORTCUT_ACTIONS.find(({ action: a }) => keymap[a] === key);
+    if (!action) return;
+    if (action.action === "help") {
+      e.preventDefault();
+      setShowShortcutHelp((v) => !v);
+      return;
+    }
+    // Leave the keyboard alone while any dialog is open
+    if (dialogOpen) return;
+    e.preventDefault();
+    if (action.action === "settings") {
+      setShowSettings(true);
+      return;
+    }
+    if (isSessionComplete) return;
+    switch (action.action) {
+      case "playPause":
+        if (runState === "running") pauseAll();
+        else startOrResume();
+        break;
+      case "prev":
+        onPrev();
+        break;
+      case "next":
+        if (rightArrowAction === "skip") onSkip();
+        else onNext();
+        break;
+      case "done":
+        onNext();
+        break;
+      case "skip":
+        onSkip();
+        break;
+      case "restart":
+        restartCurrent();
+        break;
+      case "repUp":
+      case "repDown":
+        if (isRepTask(currentTask) && !onBreak)
+          changeReps(action.action === "repUp" ? 1 : -1);
+        break;
+      case "focus":
+        playFocusToggle();
+        setFocusMode((f) => !f);
+        break;
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const [activeTab] = useState<"tasks" | "rounds">("tasks");
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [editingValues, setEditingValues] = useState<EditingValues | null>(
+    null
+  );
+  const [editingMainTimer, setEditingMainTimer] = useState<boolean>(false);
+  const [editingMainName, setEditingMainName] = useState<boolean>(false);
+  // Task whose notes and checklist are open for editing
+  const [notesTaskId, setNotesTaskId] = useState<string | null>(null);
+  // Notes start folded away in focus mode
+  const [detailsOpen, setDetailsOpen] = useState(false);
+  const [tempTime, setTempTime] = useState(fmt(currentTask.targetSec));
+  const [tempName, setTempName] = useState(currentTask.name);
+
+  const listContainerRef = useRef<HTMLUListElement | null>(null);
+  const taskLightsRef = useRef<HTMLDivElement | null>(null);
+  const roundLightsRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (lastAddedId && listContainerRef.current) {
+      const listEl = listContainerRef.current;
+      // Capture page position before
+      const pageScrollY = window.scrollY;
+      const pageScrollX = window.scrollX;
+
+      // Scroll list instantly (no smooth behavior)
+      listEl.scrollTop = listEl.scrollHeight;
+
+      // Force restore page position immediately
+      window.scrollTo(pageScrollX, pageScrollY);
+
+      // Double-check after a frame
+      requestAnimationFrame(() => {
+        window.scrollTo(pageScrollX, pageScrollY);
+      });
+    }
+  }, [lastAddedId]);
+
+  useEffect(() => {
+    if (currentTask) {
+      setTempTime(fmt(currentTask.targetSec));
+      setTempName(currentTask.name);
+    }
+  }, [currentTask]);
+
+  // Auto-save when scrolling while editing a task
+  useEffect(() => {
+    const listEl = listContainerRef.current;
+    if (!listEl) return;
+
+    const handleScroll = () => {
+      if (editingTaskId && editingValues) {
+        // Save the current editing values when scroll starts
+        handleUpdateTask(
+          editingTaskId,
+          editingValues.name,
+          parseTime(editingValues.timeStr)
+        );
+        setEditingTaskId(null);
+        setEditingValues(null);
+        setRunState("idle");
+      }
+    };
+
+    listEl.addEventListener("scroll", handleScroll);
+    return () => listEl.removeEventListener("scroll", handleScroll);
+  }, [editingTaskId, editingValues]);
+
+  // Scroll task lights to bottom when there are more than 9 tasks
+  useEffect(() => {
+    if (taskLightsRef.current && chain.length > 9) {
+      taskLightsRef.current.scrollTop = taskLightsRef.current.scrollHeight;
+    }
+  }, [chain.length]);
+
+  // Scroll round lights to bottom when there are more than 9 rounds
+  useEffect(() => {
+    if (roundLightsRef.current && roundsCount > 9) {
+      roundLightsRef.current.scrollTop = roundLightsRef.current.scrollHeight;
+    }
+  }, [roundsCount]);
+
+  const handleUpdateTask = (
+    taskId: string,
+    newName: string,
+    newTargetSec: number
+  ) => {
+    const task = byId(taskId);
+    if (task.name !== newName || task.targetSec !== newTargetSec)
+      recordUndo(`Edit ${task.name}`);
+    setTasks((prevTasks) =>
+      prevTasks.map((t) =>
+        t.id === taskId ? { ...t, name: newName, targetSec: newTargetSec } : t
+      )
+    );
+  };
+
+  const replaceTask = (task: Task) => {
+    setTasks((prevTasks) =>
+      prevTasks.map((t) => (t.id === task.id ? { ...task } : t))
+    );
+  };
+
+  const handleUpdateTaskRounds = (taskId: string, rule?: RoundRule) => {
+    recordUndo(`Change rounds of ${byId(taskId).name}`);
+    setTasks((prevTasks) =>
+      prevTasks.map((t) => {
+        if (t.id !== taskId) return t;
+        const { rounds: _previous, ...rest } = t;
+        return rule ? { ...rest, rounds: rule } : rest;
+      })
+    );
+    triggerRoundPulse();
+    triggerTotalPulse();
+  };
+
+  const handleUpdateTaskKind = (taskId: string, kind: TaskKind) => {
+    recordUndo(`Change kind of ${byId(taskId).name}`);
+    setTasks((prevTasks) =>
+      prevTasks.map((t) => (t.id === taskId ? withKind(t, kind) : t))
+    );
+    triggerRoundPulse();
+    triggerTotalPulse();
+  };
+
+  const handleUpdateTaskReps = (taskId: string, targetReps: number) => {
+    recordUndo(`Edit reps of ${byId(taskId).name}`, {
+      merge: `reps:${taskId}`,
+    });
+    setTasks((prevTasks) =>
+      prevTasks.map((t) =>
+        t.id === taskId
+          ? { ...t, targetReps: clamp(targetReps || 1, 1, 999) }
+          : t
+      )
+    );
+  };
+
+  const updateTaskDetails = (
+    taskId: string,
+    patch: Partial<
+      Pick<
+        Task,
+        | "notes"
+        | "checklist"
+        | "color"
+        | "category"
+        | "endSound"
+        | "cues"
+        | "overtime"
+      >
+    >
+  ) => {
+    recordUndo(`Edit details of ${byId(taskId).name}`, {
+      merge: `details:${taskId}`,
+    });
+    setTasks((prevTasks) =>
+      prevTasks.map((t) => (t.id === taskId ? { ...t, ...patch } : t))
+    );
+  };
+
+  /** Tick or untick a checklist item for the current task in this round */
+  const toggleChecklistItem = (itemId: string) => {
+    setRounds((prev) => {
+      const copy = prev.map((r) => r.map((t) => ({ ...t })));
+      const cell = copy[currentRoundIndex][currentTaskIndex];
+      const checked = cell.checked ?? [];
+      cell.checked =
+        checked.indexOf(itemId) === -1
+          ? [...checked, itemId]
+          : checked.filter((id) => id !== itemId);
+      return copy;
+    });
+  };
+
+  const handleBlur = (taskId: string | null, e?: React.FocusEvent) => {
+    // If focus is moving to another input in the same editing session, don't close yet
+    if (
+      e?.relatedTarget &&
+      (e.relatedTarget as HTMLElement).classList.contains("list-input")
+    ) {
+      return;
+    }
+
+    if (editingMainTimer) {
+      const newSec = parseTime(tempTime);
+      handleUpdateTask(currentTaskId, currentTask.name, newSec);
+      pausedOffsetMs.current = 0;
+      taskStartMs.current = null;
+      setRunState("idle");
+      setEditingMainTimer(false);
+      justFinishedEditingRef.current = true;
+    }
+    if (editingMainName) {
+      handleUpdateTask(currentTaskId, tempName, currentTask.targetSec);
+      setEditingMainName(false);
+      justFinishedEditingRef.current = true;
+    }
+    if (taskId && editingTaskId === taskId && editingValues) {
+      handleUpdateTask(
+        taskId,
+        editingValues.name,
+        parseTime(editingValues.timeStr)
+      );
+      setEditingTaskId(null);
+      setEditingValues(null);
+      setRunState("idle");
+      justFinishedEditingRef.current = true;
+    }
+  };
+
+  const startEditing = (task: Task) => {
+    // Steps belong to the session their block plays, not to this list
+    if (task.fromBlock) {
+      flashAlert(`Edit "${task.fromBlock.name}" to change its steps`);
+      return;
+    }
+    setRunState("paused");
+    setEditingTaskId(task.id);
+    setEditingValues({
+      id: task.id,
+      name: task.name,
+      timeStr: fmt(task.targetSec),
+    });
+  };
+
+  /** Refuse a plan whose blocks expand past the task limit, saying why */
+  const tooManySteps = (what: string, steps: number) => {
+    if (steps <= MAX_TASKS) return false;
+    alert(
+      `${what} runs ${steps} tasks once its blocks are expanded, but a ` +
+        `session can run at most ${MAX_TASKS}. Remove some tasks or blocks.`
+    );
+    return true;
+  };
+
+  /** Reset progress, optionally for a plan that is being loaded in the same pass */
+  const restartSession = (
+    plan: { tasks: Task[]; chain: string[]; roundsCount: number } = {
+      tasks,
+      chain,
+      roundsCount,
+    }
+  ) => {
+    playRestartSound();
+    recordAbandonedSession();
+    setRounds(
+      Array.from({ length: plan.roundsCount }, () =>
+        plan.chain.map((): TaskResult => ({ status: "incomplete" as TaskStatus, actualSec: null }))
+      )
+    );
+    const first = firstPosition(plan.tasks, plan.chain, plan.roundsCount);
+    setCurrentRoundIndex(first.round);
+    setCurrentTaskIndex(first.task);
+    pausedOffsetMs.current = 0;
+    taskStartMs.current = null;
+    setRunState("idle");
+    setOnBreak(false);
+    setRepCount(0);
+    setIsSessionComplete(false);
+    autoLatchRef.current = false;
+    nextRolloverRef.current = 0;
+    setRolloverOffsetSec(0);
+    setHeldCarrySec(0);
+    setBankSec(0);
+  };
+
+  /**
+   * Make a saved session (or preset) the current one, from its first task.
+   * Blocks are expanded from the library as it is now, so edits to a nested
+   * session reach every session that plays it.
+   */
+  const loadSequence = (
+    source: SessionPlan & { id?: string; name: string },
+    library = savedSequences
+  ) => {
+    const seq = expandBlocks(source, library, source.id ? [source.id] : []);
+    if (tooManySteps(`"${source.name}"`, seq.chain.length)) return false;
+    const existingTaskIds = new Set(tasks.map((t) => t.id));
+    const newTasks: Task[] = [];
+    seq.tasks.forEach((task) => {
+      if (!existingTaskIds.has(task.id)) {
+        newTasks.push(task);
+      }
+    });
+
+    if (newTasks.length > 0) {
+      setTasks((prev) => [...prev, ...newTasks]);
+    }
+
+    // Update existing tasks
+    seq.tasks.forEach((task) => {
+      const existing = tasks.find((t) => t.id === task.id);
+      if (existing && JSON.stringify(existing) !== JSON.stringify(task)) {
+        replaceTask(task);
+      }
+    });
+
+    setChain(seq.chain);
+    changeRounds(seq.roundsCount);
+    setBreakSettings(seq.breaks ?? { ...DEFAULT_BREAKS });
+    setOvertimePolicy(seq.overtime ?? { ...DEFAULT_OVERTIME });
+
+    // Reset the session
+    restartSession(seq);
+    setActiveSequenceName(seq.name);
+
+    setShowLoadModal(false);
+    playNav();
+    if (seq.missing.length)
+      flashAlert(`Skipped missing block: ${seq.missing.join(", ")}`);
+    return true;
+  };
+
+  const handleClearAll = () => {
+    recordUndo("Clear all", { toast: true });
+    recordAbandonedSession();
+    setActiveSequenceName("");
+    const newId = generateId();
+    const defaultTask: Task = { id: newId, name: "New Task", targetSec: 60 };
+    setTasks([defaultTask]);
+    setChain([newId]);
+    setRoundsCount(1);
+    setBreakSettings({ ...DEFAULT_BREAKS });
+    setRounds([[{ status: "incomplete" as TaskStatus, actualSec: null }]]);
+    setCurrentRoundIndex(0);
+    setCurrentTaskIndex(0);
+    pausedOffsetMs.current = 0;
+    taskStartMs.current = null;
+    setRunState("idle");
+    setIsSessionComplete(false);
+    autoLatchRef.current = false;
+    nextRolloverRef.current = 0;
+    setRolloverOffsetSec(0);
+    setHeldCarrySec(0);
+    setBankSec(0);
+    setEditingTaskId(null);
+    setEditingValues(null);
+    setEditingMainTimer(false);
+    setEditingMainName(false);
+    playDecrease();
+    triggerTotalPulse();
+    triggerRoundPulse();
+  };
+
+  const handleConfirmClearAll = () => {
+    handleClearAll();
+    setShowConfirmModal(false);
+  };
+
+  const handleAddTask = () => {
+    if (chain.length >= MAX_TASKS) {
+      return;
+    }
+    recordUndo("Add task");
+    const newId = generateId();
+    const newTask: Task = { id: newId, name: "New Task", targetSec: 60 };
+    setTasks((prev) => [...prev, newTask]);
+    setChain((prev) => [...prev, newId]);
+    startEditing(newTask);
+    setLastAddedId(newId);
+    triggerRoundPulse();
+    playIncrease();
+  };
+
+  /** Replace the tasks with ones typed as text; progress starts over */
+  const applyTaskText = (plan: SessionPlan) => {
+    const seq = expandBlocks(plan, savedSequences);
+    if (tooManySteps("The task list", seq.chain.length)) return;
+    recordUndo("Edit tasks as text", { toast: true });
+    setTasks(seq.tasks);
+    setChain(seq.chain);
+    setRoundsCount(seq.roundsCount);
+    restartSession(seq);
+    setShowTaskText(false);
+    setEditingTaskId(null);
+    setEditingValues(null);
+    triggerRoundPulse();
+    triggerTotalPulse();
+  };
+
+  const handleDeleteTask = (taskId: string, taskIndex: number) => {
+    if (chain.length <= 1) return;
+    recordUndo(`Delete ${byId(taskId).name}`, { toast: true });
+    setTasks((prevTasks) => prevTasks.filter((t) => t.id !== taskId));
+    setChain((prevChain) => prevChain.filter((id) => id !== taskId));
+    if (taskIndex === currentTaskIndex) {
+      const newIndex = taskIndex === chain.length - 1 ? 0 : taskIndex;
+      setCurrentTaskIndex(newIndex);
+    } else if (taskIndex < currentTaskIndex) {
+      setCurrentTaskIndex((prevIndex) => prevIndex - 1);
+    }
+    triggerRoundPulse();
+    playDecrease();
+  };
+
+  const dragFrom = useRef<number | null>(null);
+  const [draggingTaskIndex, setDraggingTaskIndex] = useState<number | null>(
+    null
+  );
+
+  const moveTask = (from: number, to: number) => {
+    if (from === to) return;
+    recordUndo("Reorder tasks");
+    setChain((prev) => {
+      const next = [...prev];
+      const [id] = next.splice(from, 1);
+      next.splice(to, 0, id);
+      return next;
+    });
+    setRounds((prev) =>
+      prev.map((row) => {
+        const next = [...row];
+        const [cell] = next.splice(from, 1);
+        next.splice(to, 0, cell);
+        return next;
+      })
+    );
+  };
+  const onDragStartTask = (i: number) => (e: React.DragEvent) => {
+    if (editingTaskId) {
+      e.preventDefault();
+      return;
+    }
+    dragFrom.current = i;
+    setDraggingTaskIndex(i);
+    e.dataTransfer.effectAllowed = "move";
+
+    // Create a more visible drag image
+    const target = e.currentTarget as HTMLElement;
+    if (target) {
+      const rect = target.getBoundingClientRect();
+      e.dataTransfer.setDragImage(target, rect.width / 2, rect.height / 2);
+    }
+  };
+
+  const onDragOverTask = (i: number) => (e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+  };
+
+  /**
+   * Where a task dropped on row `to` lands: a drop on a block's steps snaps
+   * to the block's far edge, so its steps stay together
+   */
+  const dropTarget = (from: number, to: number) => {
+    const ref = byId(chain[to]).fromBlock;
+    if (!ref) return to;
+    const dir = from < to ? 1 : -1;
+    let edge = to;
+    while (
+      edge + dir >= 0 &&
+      edge + dir < chain.length &&
+      byId(chain[edge + dir]).fromBlock?.id === ref.id
+    )
+      edge += dir;
+    return edge;
+  };
+
+  const onDropTask = (i: number) => (e: React.DragEvent) => {
+    e.preventDefault();
+    const from = dragFrom.current;
+    dragFrom.current = null;
+    setDraggingTaskIndex(null);
+    if (from == null) return;
+    if (runState !== "running" && !editingTaskId)
+      moveTask(from, dropTarget(from, i));
+  };
+
+  const onDragEndTask = () => {
+    dragFrom.current = null;
+    setDraggingTaskIndex(null);
+  };
+
+  // Modal drag-and-drop handlers
+  const moveDraftTask = (from: number, to: number) => {
+    if (from === to) return;
+    setDraftChain((prev) => {
+      const next = [...prev];
+      const [id] = next.splice(from, 1);
+      next.splice(to, 0, id);
+      return next;
+    });
+  };
+
+  const onDragStartModalTask = (i: number) => (e: React.DragEvent) => {
+    if (editingModalTask) {
+      e.preventDefault();
+      return;
+    }
+    modalDragFrom.current = i;
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const onDragOverModalTask = (i: number) => (e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+  };
+
+  const onDropModalTask = (i: number) => (e: React.DragEvent) => {
+    e.preventDefault();
+    const from = modalDragFrom.current;
+    modalDragFrom.current = null;
+    if (from == null) return;
+    moveDraftTask(from, i);
+  };
+
+  const onDragEndModalTask = () => {
+    modalDragFrom.current = null;
+  };
+
+  // Update draft task name or duration
+  const updateDraftTask = (id: string, name: string, targetSec: number) => {
+    setDraftById((prev) => ({
+      ...prev,
+      [id]: { ...prev[id], name, targetSec },
+    }));
+  };
+
+  // Update how a draft task is measured
+  const updateDraftKind = (id: string, kind: TaskKind) => {
+    setDraftById((prev) => ({
+      ...prev,
+      [id]: withKind(prev[id], kind),
+    }));
+  };
+
+  const updateDraftReps = (id: string, targetReps: number) => {
+    setDraftById((prev) => ({
+      ...prev,
+      [id]: { ...prev[id], targetReps: clamp(targetReps || 1, 1, 999) },
+    }));
+  };
+
+  // Update which rounds a draft task runs in
+  const updateDraftRule = (id: string, rule?: RoundRule) => {
+    setDraftById((prev) => ({
+      ...prev,
+      [id]: { ...prev[id], rounds: rule },
+    }));
+  };
+
+  // Add new task in modal
+  const addDraftTask = () => {
+    const newId = generateId();
+    setDraftChain((prev) => [...prev, newId]);
+    setDraftById((prev) => ({
+      ...prev,
+      [newId]: { name: "New Task", targetSec: 60 },
+    }));
+    // Auto-edit the new task name
+    setTimeout(() => {
+      setEditingModalTask({ id: newId, field: "name" });
+    }, 50);
+  };
+
+  /** The draft as the runner will play it, with blocks expanded */
+  const expandDraft = () =>
+    expandBlocks(
+      {
+        tasks: draftChain
+          .filter((id) => draftById[id])
+          .map((id) => ({ id, ...draftById[id] })),
+        chain: draftChain,
+        roundsCount: draftRoundsCount,
+      },
+      savedSequences,
+      editingSequenceId ? [editingSequenceId] : []
+    );
+
+  // Sessions the draft can play as blocks without ending up inside itself
+  const blockChoices = savedSequences.filter(
+    (seq) =>
+      !editingSequenceId ||
+      (seq.id !== editingSequenceId &&
+        !usesSession(seq, editingSequenceId, savedSequences))
+  );
+
+  // Add a saved session to the draft as a block
+  const addDraftBlock = (sessionId: string) => {
+    const source = savedSequences.find((s) => s.id === sessionId);
+    if (!source) return;
+    const newId = generateId();
+    setDraftChain((prev) => [...prev, newId]);
+    setDraftById((prev) => ({
+      ...prev,
+      [newId]: { name: source.name, targetSec: 0, block: source.id },
+    }));
+  };
+
+  // Replace the draft with the entries typed as text
+  const applyDraftText = (plan: SessionPlan) => {
+    const next: Record<string, DraftTask> = {};
+    plan.tasks.forEach(({ id, ...draft }) => (next[id] = draft));
+    setDraftById(next);
+    setDraftChain(plan.chain);
+    setDraftRoundsCount(plan.roundsCount);
+    setEditingModalTask(null);
+    setDraftAsText(false);
+  };
+
+  const removeDraftEntry = (id: string) =>
+    setDraftChain((prev) => prev.filter((entry) => entry !== id));
+
+  // Calculate per-round and total time from draft
+  const calculateDraftRoundTimes = () => {
+    const plan = expandDraft();
+    return roundTargets(plan.tasks, plan.chain, plan.roundsCount);
+  };
+
+  const calculateDraftTotalTime = () =>
+    calculateDraftRoundTimes().reduce((sum, sec) => sum + sec, 0);
+
+  const changeRounds = (n: number) => {
+    const prevCount = roundsCount;
+    const finalTotal = clamp(Math.floor(n) || 1, 1, MAX_ROUNDS);
+    if (finalTotal !== rounds.length) recordUndo("Change rounds");
+    if (finalTotal > prevCount) playIncrease();
+    else if (finalTotal < prevCount) playDecrease();
+    setRounds((prev) => {
+      let next = prev;
+      if (finalTotal > prev.length) {
+        const add = Array.from({ length: finalTotal - prev.length }, () =>
+          chain.map((): TaskResult => ({ status: "incomplete" as TaskStatus, actualSec: null }))
+        );
+        next = [...prev, ...add];
+      } else if (finalTotal < prev.length) {
+        next = prev.slice(0, finalTotal);
+      }
+      setCurrentRoundIndex((r) => clamp(r, 0, finalTotal - 1));
+      setRoundsCount(finalTotal);
+      return next;
+    });
+    triggerTotalPulse();
+  };
+
+  const roundProgress =
+    curRoundTarget > 0
+      ? ((curRoundTarget - roundRemainingSec) / curRoundTarget) * 100
+      : 0;
+  const totalProgress =
+    fullSessionTarget > 0
+      ? ((fullSessionTarget - sessionRemainingSec) / fullSessionTarget) * 100
+      : 0;
+  const mainProgress =
+    effectiveTargetSec > 0
+      ? (elapsedMs / (effectiveTargetSec * 1000)) * 100
+      : 100;
+  const progressPercent = Math.min(100, Math.max(0, mainProgress));
+
+  const tasksTrackFillPct = (() => {
+    const n = chain.length;
+    if (n <= 1) return 100;
+    const completedConnectors = Math.max(0, currentTaskIndex);
+    const tgt = currentTask.targetSec || 1;
+    const partial = Math.min(1, elapsedSec / tgt);
+    const pct = ((completedConnectors + partial) / (n - 1)) * 100;
+    return Math.max(0, Math.min(100, pct));
+  })();
+
+  const roundsTrackFillPct = (() => {
+    const n = roundsCount;
+    if (n <= 1) return 100;
+    const completedConnectors = Math.max(0, currentRoundIndex);
+    const denom = Math.max(1, roundTargetSec(currentRoundIndex));
+    const partial = Math.min(1, (roundElapsedActual + elapsedSec) / denom);
+    const pct = ((completedConnectors + partial) / (n - 1)) * 100;
+    return Math.max(0, Math.min(100, pct));
+  })();
+
+  const currentRoundPositions = roundPositions(
+    tasks,
+    chain,
+    currentRoundIndex,
+    roundsCount
+  );
+  // Steps of the block the current task was expanded from, if any
+  const currentBlock = currentTask?.fromBlock;
+  const blockSteps = currentBlock
+    ? chain.filter((id) => byId(id).fromBlock?.id === currentBlock.id)
+    : [];
+  const pieGroup = (k: number) => {
+    const ref = byId(chain[currentRoundPositions[k]]).fromBlock;
+    return ref && { key: ref.id, label: ref.name };
+  };
+  const nextTask = byId(
+    chain[
+      (
+        nextPosition(currentRoundIndex, currentTaskIndex) ??
+        firstPosition(tasks, chain, roundsCount)
+      ).task
+    ]
+  );
+
+  // Count-up tasks get a slice sized by the time they have taken so far
+  const taskSliceSec = (i: number) => {
+    const t = byId(chain[i]);
+    if (!isOpenEnded(t)) return t.targetSec;
+    const live = i === currentTaskIndex && !onBreak ? elapsedSec : 0;
+    return Math.max(60, rounds[currentRoundIndex]?.[i]?.actualSec ?? live);
+  };
+
+  // Whether open-ended tasks make a round or the session's length uncertain
+  const hasOpenEnded = (rIdx: number, fromIdx = 0) =>
+    roundPositions(tasks, chain, rIdx, roundsCount).some(
+      (i) => i >= fromIdx && isOpenEnded(byId(chain[i]))
+    );
+  const roundOpenAhead = hasOpenEnded(currentRoundIndex, currentTaskIndex);
+  const roundHasOpen = hasOpenEnded(currentRoundIndex);
+  const sessionHasOpen = Array.from({ length: roundsCount }).some((_, r) =>
+    hasOpenEnded(r)
+  );
+  const sessionOpenAhead =
+    roundOpenAhead ||
+    Array.from({ length: roundsCount }).some(
+      (_, r) => r > currentRoundIndex && hasOpenEnded(r)
+    );
+
+  // Rounds pie slices, with a thinner slice for each break between rounds
+  const roundSlices: { round: number; breakSec: number }[] = [];
+  for (let r = 0; r < roundsCount; r++) {
+    roundSlices.push({ round: r, breakSec: 0 });
+    const sec = breakAfterRound(breakSettings, r, roundsCount);
+    if (sec > 0) roundSlices.push({ round: r, breakSec: sec });
+  }
+  const currentSlice = roundSlices.findIndex((sl) =>
+    onBreak
+      ? sl.breakSec > 0 && sl.round === currentRoundIndex - 1
+      : sl.breakSec === 0 && sl.round === currentRoundIndex
+  );
+  const sliceColor = (k: number) => {
+    const sl = roundSlices[k];
+    if (!sl.breakSec) return roundLightColor(sl.round);
+    return k < currentSlice ? "break-done" : "break-active";
+  };
+
+  const displayTime = openEnded
+    ? fmt(elapsedSec)
+    : isOvertime
+    ? "0:00"
+    : fmt(remainingTaskSec);
+  const overtimeSec = isOvertime ? elapsedSec - effectiveTargetSec : 0;
+
+  return (
+    <>
+      {/* Loading screen overlay */}
+      {isLoading && (
+        <div className="loading-screen">
+          <div className="loading-content">
+            <div className="loading-spinner">
+              <div className="pixel-dot"></div>
+              <div className="pixel-dot"></div>
+              <div className="pixel-dot"></div>
+            </div>
+            <div className="loading-text">Loading...</div>
+          </div>
+        </div>
+      )}
+
+      {/* Main app - hidden during loading */}
+      <div
+        className={`window ${focusMode ? "focus-mode" : ""} ${
+          isLoading ? "loading" : "loaded"
+        }`}
+        style={{ visibility: isLoading ? "hidden" : "visible" }}
+      >
+        <div className="titlebar">
+          <div className="appname">
+            <img
+              src="/weasel-logo-newer-png-small-just-text.png"
+              alt="weasel.io"
+              className="weasel-text-logo"
+            />
+            <img
+              src="/weasel-logo-newer-png-small-just-weez.png"
+              alt="Weasel"
+              className={`weasel-character ${weaselJump ? "weasel-jump" : ""}`}
+              onClick={() => {
+                setWeaselJump(true);
+                setTimeout(() => setWeaselJump(false), 600);
+                // Play hello sound
+                const audio = new Audio("/weasel-hello.mp3");
+                audio.volume = 0.5;
+                audio.play().catch(() => {
+                  /* ignore errors */
+                });
+              }}
+              style={{ cursor: "pointer" }}
+            />
+          </div>
+          <div className="title-buttons">
+            <button
+              className="settings-btn"
+              onClick={() => setShowSettings(true)}
+              title="Settings"
+            >
+              <img
+                src="/settings-icon.png"
+                alt="Settings"
+                className="icon-settings"
+              />
+            </button>
+            <button
+              className="settings-btn"
+              onClick={() => setShowConfirmModal(true)}
+              title="Clear all"
+            >
+              <img
+                src="/trash-icon.png"
+                alt="Clear all"
+                className="icon-trash"
+              />
+            </button>
+          </div>
+          <div className="window-dots" aria-hidden>
+            <span className="dot dot-min" />
+            <span className="dot dot-max" />
+            <span className="dot dot-close" />
+          </div>
+        </div>
+
+        <div className="overview">
+          <div className="ov-left">
+            <div
+              className={`card timer-card ${pulseRound ? "wiggle-round" : ""}`}
+              onAnimationEnd={() => setPulseRound(false)}
+            >
+              <div
+                className="timer-progress-round"
+                style={{ transform: `scaleY(${1 - roundProgress / 100})` }}
+              />
+              <div className="card-content">
+                <div className="card-label">Round</div>
+                <div className="primary">
+                  {fmt(roundRemainingSec)}
+                  {roundOpenAhead && <span className="open-ended-mark">+</span>}
+                </div>
+                <div className="of">
+                  of{" "}
+                  <span
+                    className="time-badge"
+                    title={roundHasOpen ? "Plus open-ended tasks" : undefined}
+                  >
+                    {fmt(curRoundTarget)}
+                    {roundHasOpen && "+"}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="ov-center">
             <div
               className={`card timer-card ${pulseTotal ? "wiggle-total" : ""}`}
               onAnimationEnd={() => setPulseTotal(false)}
@@ -1338,10 +5979,21 @@ export default function App() {
               />
               <div className="card-content">
                 <div className="card-label">Total</div>
-                <div className="primary">{fmt(sessionRemainingSec)}</div>
+                <div className="primary">
+                  {fmt(sessionRemainingSec)}
+                  {sessionOpenAhead && (
+                    <span className="open-ended-mark">+</span>
+                  )}
+                </div>
                 <div className="of">
                   of{" "}
-                  <span className="time-badge">{fmt(fullSessionTarget)}</span>
+                  <span
+                    className="time-badge"
+                    title={sessionHasOpen ? "Plus open-ended tasks" : undefined}
+                  >
+                    {fmt(fullSessionTarget)}
+                    {sessionHasOpen && "+"}
+                  </span>
                 </div>
               </div>
             </div>
@@ -1354,11 +6006,19 @@ export default function App() {
                   <div className="stepper-title">Tasks</div>
                   <div className="lights-row" aria-label="Task progress">
                     <PieChart
-                      segments={chain.length}
-                      currentIndex={currentTaskIndex}
+                      segments={currentRoundPositions.length}
+                      currentIndex={currentRoundPositions.indexOf(
+                        currentTaskIndex
+                      )}
                       size={62}
-                      getSegmentColor={taskLightColor}
-                      segmentValues={chain.map((id) => byId(id).targetSec)}
+                      getSegmentColor={(k) =>
+                        taskLightColor(currentRoundPositions[k])
+                      }
+                      getSegmentFill={(k) =>
+                        taskColor(byId(chain[currentRoundPositions[k]]))
+                      }
+                      getSegmentGroup={pieGroup}
+                      segmentValues={currentRoundPositions.map(taskSliceSec)}
                     />
                   </div>
                 </div>
@@ -1369,10 +6029,19 @@ export default function App() {
                   <div className="stepper-title">Rounds</div>
                   <div className="lights-row" aria-label="Round progress">
                     <PieChart
-                      segments={roundsCount}
-                      currentIndex={currentRoundIndex}
+                      segments={roundSlices.length}
+                      currentIndex={currentSlice}
                       size={62}
-                      getSegmentColor={roundLightColor}
+                      getSegmentColor={sliceColor}
+                      segmentValues={
+                        roundSlices.length > roundsCount
+                          ? roundSlices.map(
+                              (sl) =>
+                                sl.breakSec ||
+                                Math.max(1, roundTargetSec(sl.round))
+                            )
+                          : undefined
+                      }
                     />
                   </div>
                 </div>
@@ -1435,7 +6104,7 @@ export default function App() {
         <div className="content">
           <div className="left">
             <div
-              className="timer-area"
+              className={`timer-area ${onBreak ? "on-break" : ""}`}
               ref={timerAreaRef}
               onClick={!isSessionComplete ? handleTimerAreaClick : undefined}
               data-focusable={!isSessionComplete}
@@ -1456,10 +6125,39 @@ export default function App() {
                     >
                       Save as template
                     </button>
-                    <button className="btn btn-repeat" onClick={restartSession}>
+                    <button
+                      className="btn btn-repeat"
+                      onClick={() => restartSession()}
+                    >
                       Repeat
                     </button>
                   </div>
+                  <div className="all-done-controls all-done-exports">
+                    <button
+                      className="btn btn-placeholder"
+                      onClick={() =>
+                        exportResultsCsv(
+                          activeSequenceName,
+                          chain.map(byId),
+                          rounds
+                        )
+                      }
+                    >
+                      Export CSV
+                    </button>
+                    <button
+                      className="btn btn-placeholder"
+                      onClick={() =>
+                        copyResultsMarkdown(
+                          activeSequenceName,
+                          chain.map(byId),
+                          rounds
+                        )
+                      }
+                    >
+                      Copy Markdown
+                    </button>
+                  </div>
                 </div>
               ) : (
                 <>
@@ -1474,12 +6172,15 @@ export default function App() {
                     </span>
                     <span>{roundToastText}</span>
                   </div>
-                  {showRolloverToast && (
+                  {showRolloverToast !== null && (
                     <div
-                      className="rollover-toast show"
+                      className={`rollover-toast show ${
+                        showRolloverToast < 0 ? "is-debt" : ""
+                      }`}
                       onAnimationEnd={() => setShowRolloverToast(null)}
                     >
-                      +{fmt(showRolloverToast)}
+                      {fmtDelta(showRolloverToast)}
+                      {rolloverMode === "bank" ? " banked" : ""}
                     </div>
                   )}
                   <button
@@ -1502,11 +6203,44 @@ export default function App() {
                           onBlur={() => handleBlur(null)}
                           autoFocus
                         />
+                      ) : isRepTask(currentTask) && !onBreak ? (
+                        <div className="rep-counter" data-nocapture="true">
+                          <button
+                            className="btn btn-neutral rep-btn"
+                            onClick={() => changeReps(-1)}
+                            disabled={repCount === 0}
+                            title="Remove a rep"
+                          >
+                            −
+                          </button>
+                          <div className="bigtime rep-count" aria-live="polite">
+                            {repCount}
+                            <span className="rep-target">
+                              /{currentTask.targetReps ?? DEFAULT_TARGET_REPS}
+                            </span>
+                            <div className="rep-elapsed">{displayTime}</div>
+                          </div>
+                          <button
+                            className="btn btn-neutral rep-btn"
+                            onClick={() => changeReps(1)}
+                            title="Add a rep"
+                          >
+                            +
+                          </button>
+                        </div>
                       ) : (
                         <div
-                          className="bigtime"
+                          className={`bigtime ${openEnded ? "count-up" : ""} ${
+                            cuePulse ? "cue-pulse" : ""
+                          }`}
+                          onAnimationEnd={() => setCuePulse(false)}
                           data-nocapture="true"
-                          onClick={() => setEditingMainTimer(true)}
+                          onClick={() =>
+                            !onBreak &&
+                            !openEnded &&
+                            !currentTask.fromBlock &&
+                            setEditingMainTimer(true)
+                          }
                           aria-live="polite"
                         >
                           {displayTime}
@@ -1527,11 +6261,106 @@ export default function App() {
                         <div
                           className="taskname"
                           data-nocapture="true"
-                          onClick={() => setEditingMainName(true)}
+                          onClick={() =>
+                            !onBreak &&
+                            !currentTask.fromBlock &&
+                            setEditingMainName(true)
+                          }
                         >
-                          {currentTask.name}
+                          {onBreak ? breakLabel : currentTask.name}
+                        </div>
+                      )}
+                      {!onBreak && currentBlock && (
+                        <div className="task-block-label">
+                          ▣ {currentBlock.name} ·{" "}
+                          {blockSteps.indexOf(currentTask.id) + 1}/
+                          {blockSteps.length}
+                        </div>
+                      )}
+                      {(rolloverOffsetSec !== 0 ||
+                        heldCarrySec !== 0 ||
+                        rolloverMode === "bank") && (
+                        <div className="carry-indicator" data-nocapture="true">
+                          {rolloverOffsetSec !== 0 && (
+                            <span
+                              className={`carry-chip ${
+                                rolloverOffsetSec < 0 ? "is-debt" : ""
+                              }`}
+                              title="Time carried into this task"
+                            >
+                              {rolloverOffsetSec < 0 ? "Debt" : "Carry"}{" "}
+                              {fmtDelta(rolloverOffsetSec)}
+                            </span>
+                          )}
+                          {heldCarrySec !== 0 && (
+                            <span
+                              className={`carry-chip ${
+                                heldCarrySec < 0 ? "is-debt" : ""
+                              }`}
+                            >
+                              {fmtDelta(heldCarrySec)} for the next round
+                            </span>
+                          )}
+                          {rolloverMode === "bank" && (
+                            <button
+                              className="carry-chip is-bank"
+                              onClick={spendBank}
+                              disabled={bankSec === 0 || onBreak || openEnded}
+                              title="Add the banked time to this task"
+                            >
+                              Bank {fmt(bankSec)}
+                              {bankSec > 0 && " · Spend"}
+                            </button>
+                          )}
                         </div>
                       )}
+                      {!onBreak &&
+                        (currentTask.notes || currentTask.checklist?.length) && (
+                          <div className="task-details" data-nocapture="true">
+                            {focusMode && (
+                              <button
+                                className="task-details-toggle"
+                                onClick={() => setDetailsOpen((o) => !o)}
+                                aria-expanded={detailsOpen}
+                              >
+                                {detailsOpen ? "Hide notes ▴" : "Show notes ▾"}
+                              </button>
+                            )}
+                            {(!focusMode || detailsOpen) && (
+                              <>
+                                {currentTask.notes && (
+                                  <div className="task-notes">
+                                    {currentTask.notes}
+                                  </div>
+                                )}
+                                {!!currentTask.checklist?.length && (
+                                  <ul className="task-checklist">
+                                    {currentTask.checklist.map((item) => (
+                                      <li key={item.id}>
+                                        <label>
+                                          <input
+                                            type="checkbox"
+                                            checked={
+                                              (
+                                                rounds[currentRoundIndex]?.[
+                                                  currentTaskIndex
+                                                ]?.checked ?? []
+                                              ).indexOf(item.id) !== -1
+                                            }
+                                            onChange={() =>
+                                              toggleChecklistItem(item.id)
+                                            }
+                                          />
+                                          {item.text}
+                                        </label>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </>
+                            )}
+                          </div>
+                        )}
                       <div className="controls">
                         <button
                           className="btn btn-neutral btn-restart"
@@ -1575,807 +6404,2708 @@ export default function App() {
                           />
                         </button>
 
-                        <button
-                          className="btn btn-confirm"
-                          onClick={onNext}
-                          title="Done"
-                        >
-                          <img
-                            src="/done-icon.svg"
-                            alt="Done"
-                            className="btn-icon-img"
-                          />
-                        </button>
-                      </div>
-                      <div className="next-task">
-                        Next:{" "}
-                        {
-                          byId(chain[(currentTaskIndex + 1) % chain.length])
-                            .name
-                        }{" "}
-                        <span style={{ position: "relative", top: "2px" }}>
-                          •
-                        </span>{" "}
-                        {fmt(
-                          byId(chain[(currentTaskIndex + 1) % chain.length])
-                            .targetSec
-                        )}
-                      </div>
+                        <button
+                          className="btn btn-confirm"
+                          onClick={onNext}
+                          title="Done"
+                        >
+                          <img
+                            src="/done-icon.svg"
+                            alt="Done"
+                            className="btn-icon-img"
+                          />
+                        </button>
+                      </div>
+                      <div className="next-task">
+                        Next: {(onBreak ? currentTask : nextTask).name}{" "}
+                        <span style={{ position: "relative", top: "2px" }}>
+                          •
+                        </span>{" "}
+                        {fmtTarget(onBreak ? currentTask : nextTask)}
+                      </div>
+                    </div>
+                  </div>
+                  <button
+                    className="side-arrow next"
+                    onClick={rightArrowAction === "skip" ? onSkip : onNext}
+                    title={rightArrowAction === "skip" ? "Skip task" : "Done"}
+                  >
+                    ›
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          <aside className="right">
+            <div className="planner-panel">
+              {activeTab === "tasks" && (
+                <div className="sheet-section">
+                  <div
+                    className="task-toolbar"
+                    role="group"
+                    aria-label="Task tools"
+                  >
+                    {!showTaskText && (
+                      <button
+                        className="btn btn-neutral add-btn"
+                        onClick={handleAddTask}
+                      >
+                        <span className="btn-icon" aria-hidden>
+                          +
+                        </span>
+                        <span>Add New</span>
+                      </button>
+                    )}
+                    <button
+                      className="btn btn-neutral add-btn text-mode-btn"
+                      onClick={() => setShowTaskText((v) => !v)}
+                      aria-pressed={showTaskText}
+                      title="Edit the tasks as text"
+                    >
+                      <span className="btn-icon" aria-hidden>
+                        ✎
+                      </span>
+                      <span>Text</span>
+                    </button>
+                  </div>
+                  {showTaskText ? (
+                    <SequenceTextEditor
+                      plan={{ ...collapseBlocks(tasks, chain), roundsCount }}
+                      library={savedSequences}
+                      onApply={applyTaskText}
+                      onCancel={() => setShowTaskText(false)}
+                    />
+                  ) : (
+                    <ul className="list" ref={listContainerRef}>
+                      {chain.map((id, i) => {
+                        const t = byId(id);
+                        const color = taskLightColor(i);
+                        const isActive = i === currentTaskIndex;
+                        const isEditing = editingTaskId === t.id;
+                        const isJustAdded = lastAddedId === id;
+                        const skipped = isSkipped(currentRoundIndex, i);
+                        const blockStart =
+                          !!t.fromBlock &&
+                          (i === 0 ||
+                            byId(chain[i - 1]).fromBlock?.id !==
+                              t.fromBlock.id);
+                        return (
+                          <Fragment key={id}>
+                            {blockStart && t.fromBlock && (
+                              <li className="list-block-header">
+                                <span aria-hidden>▣</span> {t.fromBlock.name}
+                              </li>
+                            )}
+                            <li
+                              ref={
+                                isEditing
+                                  ? (el) =>
+                                      el &&
+                                      el.scrollIntoView({
+                                        behavior: "smooth",
+                                        block: "center",
+                                      })
+                                  : null
+                              }
+                              className={`list-row draggable ${
+                                isActive ? "is-current" : ""
+                              } ${isJustAdded ? "highlight-new" : ""} ${
+                                draggingTaskIndex === i ? "dragging" : ""
+                              } ${
+                                inRound(currentRoundIndex, i)
+                                  ? ""
+                                  : "not-in-round"
+                              } ${t.fromBlock ? "in-block" : ""}`}
+                              onAnimationEnd={(e: any) => {
+                                if (
+                                  isJustAdded &&
+                                  (e.animationName === "rowGlow" ||
+                                    e.animationName === "rowWiggle")
+                                ) {
+                                  setLastAddedId(null);
+                                }
+                              }}
+                              onBlur={(e) => {
+                                if (
+                                  !e.currentTarget.contains(
+                                    e.relatedTarget as Node
+                                  )
+                                ) {
+                                  handleBlur(t.id);
+                                }
+                              }}
+                              draggable={!isEditing && !t.fromBlock}
+                              onDragStart={onDragStartTask(i)}
+                              onDragOver={onDragOverTask(i)}
+                              onDrop={onDropTask(i)}
+                              onDragEnd={onDragEndTask}
+                              title={
+                                skipped
+                                  ? "Skipped"
+                                  : t.fromBlock
+                                  ? `Part of "${t.fromBlock.name}"; edit ` +
+                                    "that session to change its steps"
+                                  : "Drag to reorder"
+                              }
+                            >
+                              <span
+                                className={`current-indicator ${
+                                  isActive ? "visible" : ""
+                                }`}
+                              >
+                                ›
+                              </span>
+                              <span
+                                className={`mini-dot mdot-${color} ${
+                                  skipped ? "skipped" : ""
+                                } ${taskColor(t) ? "task-colored" : ""}`}
+                                style={
+                                  taskColor(t)
+                                    ? ({ "--task-color": taskColor(t) } as any)
+                                    : undefined
+                                }
+                              />
+                              {isEditing && editingValues ? (
+                                <>
+                                  <span className="list-edit-name">
+                                    <input
+                                      className="list-input edit-name"
+                                      type="text"
+                                      value={editingValues.name}
+                                      onChange={(e) =>
+                                        setEditingValues({
+                                          ...editingValues,
+                                          name: e.target.value,
+                                        })
+                                      }
+                                      onBlur={(e) => handleBlur(t.id, e)}
+                                      onKeyDown={(e) => {
+                                        if (e.key === "Enter") handleBlur(t.id);
+                                      }}
+                                      autoFocus
+                                    />
+                                    <TaskKindSelect
+                                      className="list-input"
+                                      kind={t.kind}
+                                      onChange={(kind) =>
+                                        handleUpdateTaskKind(t.id, kind)
+                                      }
+                                    />
+                                    <RoundRuleSelect
+                                      className="list-input"
+                                      rule={t.rounds}
+                                      onChange={(rule) =>
+                                        handleUpdateTaskRounds(t.id, rule)
+                                      }
+                                    />
+                                    <button
+                                      className="list-input notes-btn"
+                                      onClick={() => setNotesTaskId(t.id)}
+                                      title="Category, color, notes & checklist"
+                                    >
+                                      ≡
+                                    </button>
+                                  </span>
+                                  {isRepTask(t) ? (
+                                    <input
+                                      className="list-input edit-time"
+                                      type="number"
+                                      min={1}
+                                      max={999}
+                                      value={
+                                        t.targetReps ?? DEFAULT_TARGET_REPS
+                                      }
+                                      title="Target reps"
+                                      onChange={(e) =>
+                                        handleUpdateTaskReps(
+                                          t.id,
+                                          parseInt(e.target.value, 10)
+                                        )
+                                      }
+                                      onBlur={(e) => handleBlur(t.id, e)}
+                                      onKeyDown={(e) => {
+                                        if (e.key === "Enter") handleBlur(t.id);
+                                      }}
+                                    />
+                                  ) : isOpenEnded(t) ? (
+                                    <span className="list-time">
+                                      {fmtTarget(t)}
+                                    </span>
+                                  ) : (
+                                    <input
+                                      className="list-input edit-time"
+                                      type="text"
+                                      value={editingValues.timeStr}
+                                      onChange={(e) =>
+                                        setEditingValues({
+                                          ...editingValues,
+                                          timeStr: e.target.value,
+                                        })
+                                      }
+                                      onBlur={(e) => handleBlur(t.id, e)}
+                                      onKeyDown={(e) => {
+                                        if (e.key === "Enter") handleBlur(t.id);
+                                      }}
+                                    />
+                                  )}
+                                </>
+                              ) : (
+                                <>
+                                  <span
+                                    className="list-name"
+                                    onClick={() => startEditing(t)}
+                                  >
+                                    {t.name}
+                                    {t.rounds && (
+                                      <span className="round-rule-badge">
+                                        {roundRuleLabel(t.rounds)}
+                                      </span>
+                                    )}
+                                    {t.category && (
+                                      <span
+                                        className="category-badge"
+                                        style={
+                                          {
+                                            "--task-color": taskColor(t),
+                                          } as any
+                                        }
+                                      >
+                                        {t.category}
+                                      </span>
+                                    )}
+                                    {(t.notes || !!t.checklist?.length) && (
+                                      <span
+                                        className="task-notes-badge"
+                                        title="Has notes"
+                                      >
+                                        ≡
+                                      </span>
+                                    )}
+                                  </span>
+                                  <span
+                                    className="list-time"
+                                    onClick={() => startEditing(t)}
+                                  >
+                                    {fmtTarget(t)}
+                                  </span>
+                                </>
+                              )}
+                              {!t.fromBlock && (
+                                <>
+                                  <span className="drag-handle" aria-hidden>
+                                    ⋮⋮
+                                  </span>
+                                  <button
+                                    className="delete-btn"
+                                    onClick={() => handleDeleteTask(t.id, i)}
+                                    title="Delete Task"
+                                  >
+                                    +
+                                  </button>
+                                </>
+                              )}
+                            </li>
+                          </Fragment>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          </aside>
+        </div>
+
+        {notesTaskId &&
+          (() => {
+            const task = tasks.find((t) => t.id === notesTaskId);
+            if (!task) return null;
+            const checklist = task.checklist ?? [];
+            const setChecklist = (items: ChecklistItem[]) =>
+              updateTaskDetails(task.id, {
+                checklist: items.length ? items : undefined,
+              });
+            return (
+              <div
+                className="modal-backdrop"
+                onClick={(e) => {
+                  if (e.target === e.currentTarget) setNotesTaskId(null);
+                }}
+              >
+                <div
+                  className="modal"
+                  role="dialog"
+                  aria-modal="true"
+                  aria-labelledby="task-notes-title"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <div className="modal-header">
+                    <div id="task-notes-title" className="modal-title">
+                      {task.name}
+                    </div>
+                    <button
+                      className="modal-close"
+                      onClick={() => setNotesTaskId(null)}
+                    >
+                      Done
+                    </button>
+                  </div>
+                  <div className="modal-body">
+                    <div className="sequence-tasks-label">Category</div>
+                    <input
+                      className="task-name-edit task-category-input"
+                      type="text"
+                      list="task-category-options"
+                      value={task.category ?? ""}
+                      placeholder="e.g. work, rest, admin"
+                      onChange={(e) =>
+                        updateTaskDetails(task.id, {
+                          category: e.target.value.trim()
+                            ? e.target.value
+                            : undefined,
+                        })
+                      }
+                      onBlur={(e) =>
+                        updateTaskDetails(task.id, {
+                          category: e.target.value.trim() || undefined,
+                        })
+                      }
+                    />
+                    <datalist id="task-category-options">
+                      {Array.from(
+                        new Set([
+                          ...Object.keys(CATEGORY_COLORS),
+                          ...tasks
+                            .map((t) => t.category)
+                            .filter((c): c is string => !!c),
+                        ])
+                      ).map((c) => (
+                        <option key={c} value={c} />
+                      ))}
+                    </datalist>
+                    <div className="sequence-tasks-label">Color</div>
+                    <div className="color-swatches" role="radiogroup">
+                      <button
+                        className={`color-swatch auto ${
+                          task.color ? "" : "selected"
+                        }`}
+                        role="radio"
+                        aria-checked={!task.color}
+                        title="Use the category's color"
+                        style={
+                          task.category
+                            ? ({
+                                "--task-color": categoryColor(task.category),
+                              } as any)
+                            : undefined
+                        }
+                        onClick={() =>
+                          updateTaskDetails(task.id, { color: undefined })
+                        }
+                      >
+                        Auto
+                      </button>
+                      {TASK_COLORS.map((c) => (
+                        <button
+                          key={c}
+                          className={`color-swatch ${
+                            task.color === c ? "selected" : ""
+                          }`}
+                          role="radio"
+                          aria-checked={task.color === c}
+                          aria-label={c}
+                          style={{ background: c }}
+                          onClick={() =>
+                            updateTaskDetails(task.id, { color: c })
+                          }
+                        />
+                      ))}
+                    </div>
+                    <div className="sequence-tasks-label">Time-up sound</div>
+                    <div className="task-sound-row">
+                      <select
+                        className="sound-select"
+                        value={task.endSound ?? ""}
+                        onChange={(e) =>
+                          updateTaskDetails(task.id, {
+                            endSound: e.target.value || undefined,
+                          })
+                        }
+                      >
+                        <option value="">
+                          Default (
+                          {
+                            SOUND_DESIGNS[soundPrefs.events.taskEnd.design]
+                              .label
+                          }
+                          )
+                        </option>
+                        {EVENT_DESIGNS.taskEnd.map((design) => (
+                          <option key={design} value={design}>
+                            {SOUND_DESIGNS[design].label}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        className="sound-preview"
+                        onClick={() =>
+                          previewSound(
+                            task.endSound ?? soundPrefs.events.taskEnd.design
+                          )
+                        }
+                        title="Preview"
+                      >
+                        ▶
+                      </button>
+                    </div>
+                    <div className="sequence-tasks-label">Warning cues</div>
+                    <div className="setting-row">
+                      <input
+                        id="task-cues-own"
+                        type="checkbox"
+                        checked={!!task.cues}
+                        onChange={(e) =>
+                          updateTaskDetails(task.id, {
+                            cues: e.target.checked
+                              ? { ...warningCues }
+                              : undefined,
+                          })
+                        }
+                      />
+                      <label htmlFor="task-cues-own">
+                        Use its own warning cues
+                      </label>
+                    </div>
+                    {task.cues && (
+                      <WarningCuesFields
+                        idPrefix="task-cues"
+                        cues={task.cues}
+                        onChange={(cues) =>
+                          updateTaskDetails(task.id, { cues })
+                        }
+                      />
+                    )}
+                    <div className="sequence-tasks-label">Overtime</div>
+                    <div className="setting-row">
+                      <input
+                        id="task-overtime-own"
+                        type="checkbox"
+                        checked={!!task.overtime}
+                        onChange={(e) =>
+                          updateTaskDetails(task.id, {
+                            overtime: e.target.checked
+                              ? { ...overtimePolicy }
+                              : undefined,
+                          })
+                        }
+                      />
+                      <label htmlFor="task-overtime-own">
+                        Use its own overtime policy
+                      </label>
+                    </div>
+                    {task.overtime && (
+                      <OvertimePolicyFields
+                        idPrefix="task-overtime"
+                        policy={task.overtime}
+                        onChange={(overtime) =>
+                          updateTaskDetails(task.id, { overtime })
+                        }
+                      />
+                    )}
+                    <div className="sequence-tasks-label">Notes</div>
+                    <textarea
+                      className="task-notes-input"
+                      rows={5}
+                      value={task.notes ?? ""}
+                      placeholder="Talking points, cues, links…"
+                      onChange={(e) =>
+                        updateTaskDetails(task.id, {
+                          notes: e.target.value || undefined,
+                        })
+                      }
+                    />
+                    <div className="sequence-tasks-label">Checklist</div>
+                    <ul className="checklist-editor">
+                      {checklist.map((item, k) => (
+                        <li key={item.id} className="checklist-editor-row">
+                          <input
+                            className="task-name-edit"
+                            type="text"
+                            value={item.text}
+                            autoFocus={k === checklist.length - 1 && !item.text}
+                            onChange={(e) =>
+                              setChecklist(
+                                checklist.map((c) =>
+                                  c.id === item.id
+                                    ? { ...c, text: e.target.value }
+                                    : c
+                                )
+                              )
+                            }
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter")
+                                setChecklist([
+                                  ...checklist,
+                                  { id: generateId(), text: "" },
+                                ]);
+                            }}
+                          />
+                          <button
+                            className="delete-sequence-btn"
+                            onClick={() =>
+                              setChecklist(
+                                checklist.filter((c) => c.id !== item.id)
+                              )
+                            }
+                            title="Remove item"
+                          >
+                            ×
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    <button
+                      className="add-task-modal-btn"
+                      onClick={() =>
+                        setChecklist([
+                          ...checklist,
+                          { id: generateId(), text: "" },
+                        ])
+                      }
+                    >
+                      <span className="btn-icon">+</span>
+                      add item
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })()}
+
+        {showSettings && (
+          <div
+            className="modal-backdrop"
+            onClick={(e) => {
+              if (e.target === e.currentTarget) setShowSettings(false);
+            }}
+          >
+            <div
+              className="modal"
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="settings-title"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="modal-header">
+                <div id="settings-title" className="modal-title">
+                  Settings
+                </div>
+                <button
+                  className="modal-close"
+                  onClick={() => setShowSettings(false)}
+                >
+                  Close
+                </button>
+              </div>
+
+              <div className="modal-body">
+                <div className="setting-row">
+                  <input
+                    id="autocontinue"
+                    type="checkbox"
+                    checked={autocontinue}
+                    onChange={(e) => setAutocontinue(e.target.checked)}
+                  />
+                  <label htmlFor="autocontinue">Autocontinue</label>
+                </div>
+                <div className="setting-help">
+                  When enabled, tasks automatically advance when their time runs
+                  out.
+                </div>
+
+                <div className="setting-row">
+                  <label htmlFor="rollover">Rollover</label>
+                  <select
+                    id="rollover"
+                    value={rolloverMode}
+                    onChange={(e) =>
+                      setRolloverMode(e.target.value as RolloverMode)
+                    }
+                  >
+                    {(Object.keys(ROLLOVER_MODE_LABELS) as RolloverMode[]).map(
+                      (mode) => (
+                        <option key={mode} value={mode}>
+                          {ROLLOVER_MODE_LABELS[mode]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </div>
+                {rolloverMode === "debt" && (
+                  <div className="setting-row" style={{ paddingLeft: "20px" }}>
+                    <label htmlFor="debt-floor">Never cut a task below</label>
+                    <DurationInput
+                      id="debt-floor"
+                      className="setting-number"
+                      sec={debtFloorSec}
+                      onChange={setDebtFloorSec}
+                    />
+                  </div>
+                )}
+                <div className="setting-help">
+                  Add time left on a finished task to the next one. Debt mode
+                  also takes overtime off the next task. Bank mode saves it up
+                  instead, to spend on any task from the timer.
+                </div>
+
+                <div className="setting-row">
+                  <input
+                    id="breaks"
+                    type="checkbox"
+                    checked={breakSettings.enabled}
+                    onChange={(e) =>
+                      setBreakSettings({
+                        ...breakSettings,
+                        enabled: e.target.checked,
+                      })
+                    }
+                  />
+                  <label htmlFor="breaks">Breaks between rounds</label>
+                </div>
+                {breakSettings.enabled && (
+                  <>
+                    <div className="setting-row" style={{ paddingLeft: "20px" }}>
+                      <label htmlFor="short-break">Short break</label>
+                      <DurationInput
+                        id="short-break"
+                        className="setting-number"
+                        sec={breakSettings.shortSec}
+                        onChange={(shortSec) =>
+                          setBreakSettings({ ...breakSettings, shortSec })
+                        }
+                      />
+                    </div>
+                    <div className="setting-row" style={{ paddingLeft: "20px" }}>
+                      <label htmlFor="long-break">Long break</label>
+                      <DurationInput
+                        id="long-break"
+                        className="setting-number"
+                        sec={breakSettings.longSec}
+                        onChange={(longSec) =>
+                          setBreakSettings({ ...breakSettings, longSec })
+                        }
+                      />
+                      <label htmlFor="long-every">every</label>
+                      <input
+                        id="long-every"
+                        className="setting-number"
+                        type="number"
+                        min={0}
+                        max={99}
+                        value={breakSettings.longEvery}
+                        onChange={(e) =>
+                          setBreakSettings({
+                            ...breakSettings,
+                            longEvery: clamp(
+                              parseInt(e.target.value, 10) || 0,
+                              0,
+                              99
+                            ),
+                          })
+                        }
+                      />
+                      <label htmlFor="long-every">rounds</label>
+                    </div>
+                  </>
+                )}
+                <div className="setting-help">
+                  Rest after each round except the last. Breaks are timed but
+                  don't count toward task or session totals. Set the long
+                  break cadence to 0 to only take short breaks.
+                </div>
+
+                <div className="setting-row">
+                  <label htmlFor="overtime-mode" style={{ fontWeight: 600 }}>
+                    When a task runs over:
+                  </label>
+                </div>
+                <OvertimePolicyFields
+                  idPrefix="overtime"
+                  policy={overtimePolicy}
+                  onChange={setOvertimePolicy}
+                />
+                <div className="setting-help">
+                  Saved with the session. Re-rings start after the set time,
+                  each gap half the one before. Tasks can set their own policy
+                  in their details.
+                </div>
+
+                <div className="setting-row">
+                  <label style={{ fontWeight: 600 }}>
+                    Right arrow (›) action:
+                  </label>
+                </div>
+                <div className="setting-row" style={{ paddingLeft: "20px" }}>
+                  <input
+                    id="arrow-skip"
+                    type="radio"
+                    name="rightArrowAction"
+                    checked={rightArrowAction === "skip"}
+                    onChange={() => setRightArrowAction("skip")}
+                  />
+                  <label htmlFor="arrow-skip">Skip task</label>
+                </div>
+                <div className="setting-row" style={{ paddingLeft: "20px" }}>
+                  <input
+                    id="arrow-done"
+                    type="radio"
+                    name="rightArrowAction"
+                    checked={rightArrowAction === "done"}
+                    onChange={() => setRightArrowAction("done")}
+                  />
+                  <label htmlFor="arrow-done">Mark as done</label>
+                </div>
+                <div className="setting-help">
+                  Choose whether the right arrow skips the task or marks it
+                  complete.
+                </div>
+
+                <div className="setting-row">
+                  <input
+                    id="notifications"
+                    type="checkbox"
+                    checked={notificationPrefs.enabled}
+                    disabled={!notificationsSupported()}
+                    onChange={(e) => toggleNotifications(e.target.checked)}
+                  />
+                  <label htmlFor="notifications">System notifications</label>
+                </div>
+                {notificationPrefs.enabled && (
+                  <div className="setting-row" style={{ paddingLeft: "20px" }}>
+                    <label htmlFor="overtime-minutes">
+                      Overtime alert after
+                    </label>
+                    <input
+                      id="overtime-minutes"
+                      className="setting-number"
+                      type="number"
+                      min={0}
+                      max={120}
+                      value={notificationPrefs.overtimeMinutes}
+                      onChange={(e) =>
+                        saveNotificationPrefs({
+                          ...notificationPrefs,
+                          overtimeMinutes: clamp(
+                            parseInt(e.target.value, 10) || 0,
+                            0,
+                            120
+                          ),
+                        })
+                      }
+                    />
+                    <label htmlFor="overtime-minutes">min</label>
+                  </div>
+                )}
+                <div className="setting-help">
+                  Notify when a task ends, runs over, and when a round or the
+                  session finishes, while this tab is in the background. Set
+                  the overtime alert to 0 to turn it off.
+                </div>
+
+                <div className="setting-row">
+                  <label style={{ fontWeight: 600 }}>Sound:</label>
+                </div>
+                <div className="setting-row">
+                  <input
+                    id="sound-muted"
+                    type="checkbox"
+                    checked={soundPrefs.muted}
+                    onChange={(e) =>
+                      saveSoundPrefs({ ...soundPrefs, muted: e.target.checked })
+                    }
+                  />
+                  <label htmlFor="sound-muted">Mute all sounds</label>
+                </div>
+                <div className="setting-row" style={{ paddingLeft: "20px" }}>
+                  <label htmlFor="sound-volume">Volume</label>
+                  <input
+                    id="sound-volume"
+                    className="sound-volume"
+                    type="range"
+                    min={0}
+                    max={100}
+                    disabled={soundPrefs.muted}
+                    value={Math.round(soundPrefs.volume * 100)}
+                    onChange={(e) =>
+                      saveSoundPrefs({
+                        ...soundPrefs,
+                        volume: clamp(Number(e.target.value) / 100, 0, 1),
+                      })
+                    }
+                  />
+                  <span className="sound-volume-value">
+                    {Math.round(soundPrefs.volume * 100)}%
+                  </span>
+                </div>
+                <ul className="shortcut-list">
+                  {(Object.keys(SOUND_EVENT_LABELS) as SoundEvent[]).map(
+                    (event) => {
+                      const pref = soundPrefs.events[event];
+                      return (
+                        <li key={event} className="shortcut-row sound-row">
+                          <span className="sound-event">
+                            <input
+                              id={`sound-${event}`}
+                              type="checkbox"
+                              checked={pref.enabled}
+                              disabled={soundPrefs.muted}
+                              onChange={(e) =>
+                                updateSoundEvent(event, {
+                                  enabled: e.target.checked,
+                                })
+                              }
+                            />
+                            <label htmlFor={`sound-${event}`}>
+                              {SOUND_EVENT_LABELS[event]}
+                            </label>
+                          </span>
+                          <span className="sound-event">
+                            <select
+                              className="sound-select"
+                              value={pref.design}
+                              disabled={soundPrefs.muted || !pref.enabled}
+                              onChange={(e) =>
+                                updateSoundEvent(event, {
+                                  design: e.target.value,
+                                })
+                              }
+                              aria-label={`${SOUND_EVENT_LABELS[event]} sound`}
+                            >
+                              {EVENT_DESIGNS[event].map((design) => (
+                                <option key={design} value={design}>
+                                  {SOUND_DESIGNS[design].label}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              className="sound-preview"
+                              onClick={() => previewSound(pref.design)}
+                              title="Preview"
+                              aria-label={`Preview ${SOUND_EVENT_LABELS[event]} sound`}
+                            >
+                              ▶
+                            </button>
+                          </span>
+                        </li>
+                      );
+                    }
+                  )}
+                </ul>
+                <div className="setting-help">
+                  Tasks can also pick their own time-up sound in their
+                  details.
+                </div>
+
+                <div className="setting-row">
+                  <label style={{ fontWeight: 600 }}>Warning cues:</label>
+                </div>
+                <WarningCuesFields
+                  idPrefix="cues"
+                  cues={warningCues}
+                  onChange={saveWarningCues}
+                />
+                <div className="setting-help">
+                  Sound and pulse the timer before a task ends. Tasks can set
+                  their own cues in their details.
+                </div>
+
+                <div className="setting-row">
+                  <input
+                    id="voice-enabled"
+                    type="checkbox"
+                    checked={voicePrefs.enabled}
+                    disabled={!speechSupported()}
+                    onChange={(e) =>
+                      saveVoicePrefs({
+                        ...voicePrefs,
+                        enabled: e.target.checked,
+                      })
+                    }
+                  />
+                  <label htmlFor="voice-enabled">Spoken announcements</label>
+                </div>
+                {voicePrefs.enabled && (
+                  <>
+                    <div
+                      className="setting-row"
+                      style={{ paddingLeft: "20px" }}
+                    >
+                      <label htmlFor="voice-select">Voice</label>
+                      <select
+                        id="voice-select"
+                        className="sound-select voice-select"
+                        value={voicePrefs.voiceURI}
+                        onChange={(e) =>
+                          saveVoicePrefs({
+                            ...voicePrefs,
+                            voiceURI: e.target.value,
+                          })
+                        }
+                      >
+                        <option value="">Browser default</option>
+                        {voices.map((v) => (
+                          <option key={v.voiceURI} value={v.voiceURI}>
+                            {v.name} ({v.lang})
+                          </option>
+                        ))}
+                      </select>
                     </div>
-                  </div>
+                    <div
+                      className="setting-row"
+                      style={{ paddingLeft: "20px" }}
+                    >
+                      <label htmlFor="voice-rate">Rate</label>
+                      <input
+                        id="voice-rate"
+                        className="sound-volume"
+                        type="range"
+                        min={50}
+                        max={200}
+                        step={10}
+                        value={Math.round(voicePrefs.rate * 100)}
+                        onChange={(e) =>
+                          saveVoicePrefs({
+                            ...voicePrefs,
+                            rate: Number(e.target.value) / 100,
+                          })
+                        }
+                      />
+                      <span className="sound-volume-value">
+                        {voicePrefs.rate.toFixed(1)}×
+                      </span>
+                      <button
+                        className="sound-preview"
+                        onClick={() =>
+                          speak(
+                            `${currentTask.name}, ${spokenDuration(
+                              currentTask.targetSec
+                            )}`,
+                            voicePrefs
+                          )
+                        }
+                        title="Test voice"
+                        aria-label="Test voice"
+                      >
+                        ▶
+                      </button>
+                    </div>
+                    <ul className="shortcut-list" style={{ paddingLeft: 28 }}>
+                      {(Object.keys(VOICE_EVENT_LABELS) as VoiceEvent[]).map(
+                        (event) => (
+                          <li key={event} className="shortcut-row sound-row">
+                            <span className="sound-event">
+                              <input
+                                id={`voice-${event}`}
+                                type="checkbox"
+                                checked={voicePrefs.events[event]}
+                                onChange={(e) =>
+                                  saveVoicePrefs({
+                                    ...voicePrefs,
+                                    events: {
+                                      ...voicePrefs.events,
+                                      [event]: e.target.checked,
+                                    },
+                                  })
+                                }
+                              />
+                              <label htmlFor={`voice-${event}`}>
+                                {VOICE_EVENT_LABELS[event]}
+                              </label>
+                            </span>
+                          </li>
+                        )
+                      )}
+                    </ul>
+                  </>
+                )}
+                <div className="setting-help">
+                  Read out what comes next, time warnings, and round and
+                  session results, for when nobody is watching the screen.
+                </div>
+
+                <div className="setting-row">
+                  <label style={{ fontWeight: 600 }}>Keyboard shortcuts:</label>
+                </div>
+                <ul className="shortcut-list">
+                  {SHORTCUT_ACTIONS.map(({ action, label }) => (
+                    <li key={action} className="shortcut-row">
+                      <span className="shortcut-label">{label}</span>
+                      <button
+                        className={`shortcut-key ${
+                          remappingAction === action ? "is-listening" : ""
+                        }`}
+                        onClick={() =>
+                          setRemappingAction(
+                            remappingAction === action ? null : action
+                          )
+                        }
+                        title="Click, then press a key"
+                      >
+                        {remappingAction === action
+                          ? "Press a key…"
+                          : keyLabel(keymap[action])}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="setting-help">
+                  Click a key, then press the new one. Esc cancels.{" "}
                   <button
-                    className="side-arrow next"
-                    onClick={rightArrowAction === "skip" ? onSkip : onNext}
-                    title={rightArrowAction === "skip" ? "Skip task" : "Done"}
+                    className="shortcut-reset"
+                    onClick={() => {
+                      setRemappingAction(null);
+                      saveKeymap({ ...DEFAULT_KEYMAP });
+                    }}
                   >
-                    ›
+                    Reset to defaults
                   </button>
-                </>
-              )}
+                </div>
+              </div>
+
+              <div className="modal-footer">
+                <button
+                  className="btn-save"
+                  onClick={() => setShowSettings(false)}
+                >
+                  Save
+                </button>
+              </div>
             </div>
           </div>
+        )}
 
-          <aside className="right">
-            <div className="planner-panel">
-              {activeTab === "tasks" && (
-                <div className="sheet-section">
-                  <div
-                    className="task-toolbar"
-                    role="group"
-                    aria-label="Task tools"
-                  >
+        {showSaveModal && (
+          <div
+            className="modal-backdrop"
+            onClick={(e) => {
+              if (e.target === e.currentTarget) setShowSaveModal(false);
+            }}
+          >
+            <div
+              className="modal modal-large"
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="save-sequence-title"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="modal-header">
+                <div id="save-sequence-title" className="modal-title">
+                  {editingSequenceId ? "Edit Session" : "Save Session"}
+                </div>
+                <button
+                  className="modal-close"
+                  onClick={() => {
+                    setShowSaveModal(false);
+                    setEditingSequenceId(null);
+                  }}
+                >
+                  Close
+                </button>
+              </div>
+
+              <div className="modal-body">
+                <div className="sequence-name-input">
+                  <label htmlFor="sequence-name">Session Name</label>
+                  <input
+                    id="sequence-name"
+                    type="text"
+                    value={sequenceName}
+                    onChange={(e) => setSequenceName(e.target.value)}
+                    placeholder="Enter session name..."
+                  />
+                </div>
+
+                <div className="sequence-tasks-section">
+                  <div className="sequence-tasks-label">
+                    Tasks in Sequence
                     <button
-                      className="btn btn-neutral add-btn"
-                      onClick={handleAddTask}
+                      className="text-mode-btn"
+                      onClick={() => setDraftAsText((v) => !v)}
+                      aria-pressed={draftAsText}
+                      title="Edit the tasks as text"
                     >
-                      <span className="btn-icon" aria-hidden>
-                        +
-                      </span>
-                      <span>Add New</span>
+                      ✎ Text
                     </button>
                   </div>
-                  <ul className="list" ref={listContainerRef}>
-                    {chain.map((id, i) => {
-                      const t = byId(id);
-                      const color = taskLightColor(i);
-                      const isActive = i === currentTaskIndex;
-                      const isEditing = editingTaskId === t.id;
-                      const isJustAdded = lastAddedId === id;
-                      const skipped = isSkipped(currentRoundIndex, i);
-                      return (
-                        <li
-                          key={id}
-                          ref={
-                            isEditing
-                              ? (el) =>
-                                  el &&
-                                  el.scrollIntoView({
-                                    behavior: "smooth",
-                                    block: "center",
-                                  })
-                              : null
+                  {draftAsText ? (
+                    <SequenceTextEditor
+                      plan={{
+                        tasks: draftChain
+                          .filter((id) => draftById[id])
+                          .map((id) => ({ id, ...draftById[id] })),
+                        chain: draftChain,
+                        roundsCount: draftRoundsCount,
+                      }}
+                      library={savedSequences}
+                      blocks={blockChoices}
+                      onApply={applyDraftText}
+                      onCancel={() => setDraftAsText(false)}
+                    />
+                  ) : (
+                    <>
+                      <ul className="sequence-task-list">
+                        {draftChain.map((id, i) => {
+                          const t = draftById[id];
+                          if (!t) return null;
+                          if (t.block) {
+                            const source = savedSequences.find(
+                              (s) => s.id === t.block
+                            );
+                            const steps = source
+                              ? expandBlocks(source, savedSequences, [
+                                  source.id,
+                                ])
+                              : null;
+                            return (
+                              <li
+                                key={id}
+                                className="sequence-task-row block-row"
+                                draggable={!editingModalTask}
+                                onDragStart={onDragStartModalTask(i)}
+                                onDragOver={onDragOverModalTask(i)}
+                                onDrop={onDropModalTask(i)}
+                                onDragEnd={onDragEndModalTask}
+                                title={
+                                  source
+                                    ? `Plays "${source.name}"; edit that ` +
+                                      "session to change its steps"
+                                    : undefined
+                                }
+                              >
+                                <span className="drag-handle" aria-hidden>
+                                  ⋮⋮
+                                </span>
+                                <span className="task-name-display block-name">
+                                  ▣{" "}
+                                  {source
+                                    ? source.name
+                                    : `${t.name} (missing)`}
+                                </span>
+                                <RoundRuleSelect
+                                  rule={t.rounds}
+                                  onChange={(rule) => updateDraftRule(id, rule)}
+                                />
+                                <span className="task-time-display is-open">
+                                  {steps
+                                    ? `${steps.chain.length} steps · ${fmt(
+                                        sequenceTotalSec(steps)
+                                      )}`
+                                    : "–"}
+                                </span>
+                                <button
+                                  className="delete-sequence-btn"
+                                  onClick={() => removeDraftEntry(id)}
+                                  title="Remove block"
+                                >
+                                  ×
+                                </button>
+                              </li>
+                            );
                           }
-                          className={`list-row draggable ${
-                            isActive ? "is-current" : ""
-                          } ${isJustAdded ? "highlight-new" : ""} ${
-                            draggingTaskIndex === i ? "dragging" : ""
-                          }`}
-                          onAnimationEnd={(e: any) => {
-                            if (
-                              isJustAdded &&
-                              (e.animationName === "rowGlow" ||
-                                e.animationName === "rowWiggle")
-                            ) {
-                              setLastAddedId(null);
+                          const isEditingName =
+                            editingModalTask?.id === id &&
+                            editingModalTask?.field === "name";
+                          const isEditingTime =
+                            editingModalTask?.id === id &&
+                            editingModalTask?.field === "time";
+
+                          return (
+                            <li
+                              key={id}
+                              className="sequence-task-row"
+                              draggable={!editingModalTask}
+                              onDragStart={onDragStartModalTask(i)}
+                              onDragOver={onDragOverModalTask(i)}
+                              onDrop={onDropModalTask(i)}
+                              onDragEnd={onDragEndModalTask}
+                            >
+                              <span className="drag-handle" aria-hidden>
+                                ⋮⋮
+                              </span>
+
+                              {isEditingName ? (
+                                <input
+                                  className="task-name-edit"
+                                  type="text"
+                                  value={t.name}
+                                  autoFocus
+                                  onChange={(e) =>
+                                    updateDraftTask(
+                                      id,
+                                      e.target.value,
+                                      t.targetSec
+                                    )
+                                  }
+                                  onBlur={() => setEditingModalTask(null)}
+                                  onKeyDown={(e) => {
+                                    if (
+                                      e.key === "Enter" ||
+                                      e.key === "Escape"
+                                    ) {
+                                      setEditingModalTask(null);
+                                    }
+                                  }}
+                                />
+                              ) : (
+                                <span
+                                  className="task-name-display"
+                                  onClick={() =>
+                                    setEditingModalTask({ id, field: "name" })
+                                  }
+                                >
+                                  {t.name}
+                                </span>
+                              )}
+
+                              <TaskKindSelect
+                                kind={t.kind}
+                                onChange={(kind) => updateDraftKind(id, kind)}
+                              />
+                              <RoundRuleSelect
+                                rule={t.rounds}
+                                onChange={(rule) => updateDraftRule(id, rule)}
+                              />
+
+                              {isRepTask(t) ? (
+                                <input
+                                  className="task-time-edit task-reps-edit"
+                                  type="number"
+                                  min={1}
+                                  max={999}
+                                  value={
+                                    t.targetReps ?? DEFAULT_TARGET_REPS
+                                  }
+                                  title="Target reps"
+                                  onChange={(e) =>
+                                    updateDraftReps(
+                                      id,
+                                      parseInt(e.target.value, 10)
+                                    )
+                                  }
+                                />
+                              ) : isOpenEnded(t) ? (
+                                <span className="task-time-display is-open">
+                                  {fmtTarget(t)}
+                                </span>
+                              ) : isEditingTime ? (
+                                <input
+                                  className="task-time-edit"
+                                  type="text"
+                                  value={fmt(t.targetSec)}
+                                  autoFocus
+                                  onChange={(e) => {
+                                    const newSec = parseTime(e.target.value);
+                                    updateDraftTask(id, t.name, newSec);
+                                  }}
+                                  onBlur={() => setEditingModalTask(null)}
+                                  onKeyDown={(e) => {
+                                    if (
+                                      e.key === "Enter" ||
+                                      e.key === "Escape"
+                                    ) {
+                                      setEditingModalTask(null);
+                                    }
+                                  }}
+                                />
+                              ) : (
+                                <span
+                                  className="task-time-display"
+                                  onClick={() =>
+                                    setEditingModalTask({ id, field: "time" })
+                                  }
+                                >
+                                  {fmt(t.targetSec)}
+                                </span>
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                      <div className="modal-task-actions">
+                        <button
+                          className="add-task-modal-btn"
+                          onClick={addDraftTask}
+                        >
+                          <span className="btn-icon">+</span>
+                          add task
+                        </button>
+                        {blockChoices.length > 0 && (
+                          <select
+                            className="add-task-modal-btn add-block-select"
+                            value=""
+                            onChange={(e) => addDraftBlock(e.target.value)}
+                            aria-label="Add a saved session as a block"
+                          >
+                            <option value="">+ add block</option>
+                            {blockChoices.map((seq) => (
+                              <option key={seq.id} value={seq.id}>
+                                {seq.name}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        <div className="modal-rounds-control">
+                          <span className="modal-rounds-label">Rounds:</span>
+                          <button
+                            className="modal-stepper-btn"
+                            onClick={() =>
+                              setDraftRoundsCount(
+                                Math.max(1, draftRoundsCount - 1)
+                              )
                             }
-                          }}
-                          onBlur={(e) => {
-                            if (
-                              !e.currentTarget.contains(e.relatedTarget as Node)
-                            ) {
-                              handleBlur(t.id);
+                            disabled={draftRoundsCount <= 1}
+                          >
+                            −
+                          </button>
+                          <span className="modal-rounds-value">
+                            {draftRoundsCount}
+                          </span>
+                          <button
+                            className="modal-stepper-btn"
+                            onClick={() =>
+                              setDraftRoundsCount(
+                                Math.min(MAX_ROUNDS, draftRoundsCount + 1)
+                              )
+                            }
+                            disabled={draftRoundsCount >= MAX_ROUNDS}
+                          >
+                            +
+                          </button>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <div className="sequence-time-summary">
+                  <span className="time-summary-label">
+                    Round time:{" "}
+                    <strong>
+                      {(() => {
+                        const times = calculateDraftRoundTimes();
+                        const lo = Math.min(...times, Infinity);
+                        const hi = Math.max(...times, 0);
+                        return lo === hi || !times.length
+                          ? fmt(hi)
+                          : `${fmt(lo)}–${fmt(hi)}`;
+                      })()}
+                    </strong>
+                  </span>
+                  <span className="time-summary-separator">|</span>
+                  <span className="time-summary-label">
+                    Total time:{" "}
+                    <strong>{fmt(calculateDraftTotalTime())}</strong>
+                  </span>
+                </div>
+              </div>
+
+              <div className="modal-footer">
+                <button
+                  className="btn btn-cancel"
+                  onClick={() => {
+                    setShowSaveModal(false);
+                    setSequenceName("");
+                    setEditingSequenceId(null);
+                  }}
+                >
+                  Cancel
+                </button>
+                <button
+                  className="btn btn-save"
+                  onClick={() => {
+                    if (!sequenceName.trim()) {
+                      alert("Please enter a session name");
+                      return;
+                    }
+
+                    // The live session plays the draft with blocks expanded
+                    const plan = expandDraft();
+                    if (tooManySteps("This session", plan.chain.length)) return;
+
+                    // 1. Create any new tasks that don't exist yet
+                    const existingTaskIds = new Set(tasks.map((t) => t.id));
+                    const newTasks: Task[] = plan.tasks.filter(
+                      (t) => !existingTaskIds.has(t.id)
+                    );
+                    if (newTasks.length > 0) {
+                      setTasks((prev) => [...prev, ...newTasks]);
+                    }
+
+                    // 2. Update the chain
+                    setChain(plan.chain);
+
+                    // 3. Sync rounds array to match new chain length
+                    setRounds((prev) => {
+                      const newChainLength = plan.chain.length;
+                      return prev.map((round) => {
+                        if (round.length === newChainLength) return round;
+                        if (round.length < newChainLength) {
+                          // Add new incomplete results for new tasks
+                          const toAdd = newChainLength - round.length;
+                          return [
+                            ...round,
+                            ...Array(toAdd).fill({
+                              status: "incomplete" as TaskStatus,
+                              actualSec: null,
+                            }),
+                          ];
+                        } else {
+                          // Remove results if chain got shorter (shouldn't happen with add, but for safety)
+                          return round.slice(0, newChainLength);
+                        }
+                      });
+                    });
+
+                    // 4. Update existing tasks that changed
+                    plan.tasks.forEach((step) => {
+                      const orig = tasks.find((t) => t.id === step.id);
+                      if (
+                        step.fromBlock &&
+                        orig &&
+                        JSON.stringify(orig) !== JSON.stringify(step)
+                      )
+                        replaceTask(step);
+                    });
+                    draftChain.forEach((id) => {
+                      const d = draftById[id];
+                      if (!d || d.block) return;
+                      const orig = tasks.find((t) => t.id === id);
+                      if (
+                        orig &&
+                        (orig.name !== d.name || orig.targetSec !== d.targetSec)
+                      ) {
+                        handleUpdateTask(id, d.name, d.targetSec);
+                      }
+                      if (
+                        orig &&
+                        JSON.stringify(orig.rounds) !==
+                          JSON.stringify(d.rounds)
+                      ) {
+                        handleUpdateTaskRounds(id, d.rounds);
+                      }
+                      const kind = d.kind ?? "countdown";
+                      if (orig && (orig.kind ?? "countdown") !== kind) {
+                        handleUpdateTaskKind(id, kind);
+                      }
+                      if (
+                        orig &&
+                        d.targetReps &&
+                        orig.targetReps !== d.targetReps
+                      ) {
+                        handleUpdateTaskReps(id, d.targetReps);
+                      }
+                    });
+
+                    // 5. Apply rounds count change
+                    if (draftRoundsCount !== roundsCount) {
+                      changeRounds(draftRoundsCount);
+                    }
+                    // The live session now plays the saved one, with its
+                    // breaks and overtime policy
+                    setBreakSettings(draftBreaks ?? { ...DEFAULT_BREAKS });
+                    setOvertimePolicy(draftOvertime ?? { ...DEFAULT_OVERTIME });
+
+                    // 6. Save or update sequence in localStorage
+                    if (editingSequenceId) {
+                      // Update existing sequence
+                      const updatedSequences = savedSequences.map((seq) =>
+                        seq.id === editingSequenceId
+                          ? {
+                              ...seq,
+                              name: sequenceName.trim(),
+                              tasks: draftChain.map((id) => {
+                                const d = draftById[id];
+                                return { id, ...d };
+                              }),
+                              chain: draftChain,
+                              roundsCount: draftRoundsCount,
+                              breaks: draftBreaks,
+                              overtime: draftOvertime,
+                              savedAt: Date.now(),
                             }
-                          }}
-                          draggable={!isEditing}
-                          onDragStart={onDragStartTask(i)}
-                          onDragOver={onDragOverTask(i)}
-                          onDrop={onDropTask(i)}
-                          onDragEnd={onDragEndTask}
-                          title={skipped ? "Skipped" : "Drag to reorder"}
-                        >
-                          <span
-                            className={`current-indicator ${
-                              isActive ? "visible" : ""
-                            }`}
-                          >
-                            ›
-                          </span>
-                          <span
-                            className={`mini-dot mdot-${color} ${
-                              skipped ? "skipped" : ""
-                            }`}
-                          />
-                          {isEditing && editingValues ? (
-                            <>
-                              <input
-                                className="list-input edit-name"
-                                type="text"
-                                value={editingValues.name}
-                                onChange={(e) =>
-                                  setEditingValues({
-                                    ...editingValues,
-                                    name: e.target.value,
-                                  })
-                                }
-                                onBlur={(e) => handleBlur(t.id, e)}
-                                onKeyDown={(e) => {
-                                  if (e.key === "Enter") handleBlur(t.id);
-                                }}
-                                autoFocus
-                              />
-                              <input
-                                className="list-input edit-time"
-                                type="text"
-                                value={editingValues.timeStr}
-                                onChange={(e) =>
-                                  setEditingValues({
-                                    ...editingValues,
-                                    timeStr: e.target.value,
-                                  })
-                                }
-                                onBlur={(e) => handleBlur(t.id, e)}
-                                onKeyDown={(e) => {
-                                  if (e.key === "Enter") handleBlur(t.id);
-                                }}
-                              />
-                            </>
-                          ) : (
-                            <>
-                              <span
-                                className="list-name"
-                                onClick={() => startEditing(t)}
-                              >
-                                {t.name}
-                              </span>
-                              <span
-                                className="list-time"
-                                onClick={() => startEditing(t)}
-                              >
-                                {fmt(t.targetSec)}
-                              </span>
-                            </>
-                          )}
-                          <span className="drag-handle" aria-hidden>
-                            ⋮⋮
-                          </span>
-                          <button
-                            className="delete-btn"
-                            onClick={() => handleDeleteTask(t.id, i)}
-                            title="Delete Task"
-                          >
-                            +
-                          </button>
-                        </li>
+                          : seq
                       );
-                    })}
-                  </ul>
-                </div>
-              )}
+                      saveSequencesToStorage(updatedSequences);
+                    } else {
+                      // Create new sequence
+                      const newSequence: SavedSequence = {
+                        id: `seq-${Date.now()}`,
+                        name: sequenceName.trim(),
+                        tasks: draftChain.map((id) => {
+                          const d = draftById[id];
+                          return { id, ...d };
+                        }),
+                        chain: draftChain,
+                        roundsCount: draftRoundsCount,
+                        breaks: draftBreaks,
+                        overtime: draftOvertime,
+                        savedAt: Date.now(),
+                      };
+                      const updatedSequences = [...savedSequences, newSequence];
+                      saveSequencesToStorage(updatedSequences);
+                    }
+
+                    setActiveSequenceName(sequenceName.trim());
+
+                    // 7. Show saved alert
+                    flashAlert("Session saved!");
+
+                    setShowSaveModal(false);
+                    setSequenceName("");
+                    setEditingSequenceId(null);
+                  }}
+                >
+                  Save and Load
+                </button>
+              </div>
             </div>
-          </aside>
-        </div>
+          </div>
+        )}
 
-        {showSettings && (
+        {showLoadModal && (
           <div
             className="modal-backdrop"
             onClick={(e) => {
-              if (e.target === e.currentTarget) setShowSettings(false);
+              if (e.target === e.currentTarget) setShowLoadModal(false);
             }}
           >
             <div
-              className="modal"
+              className="modal modal-large"
               role="dialog"
               aria-modal="true"
-              aria-labelledby="settings-title"
+              aria-labelledby="load-sequence-title"
               onClick={(e) => e.stopPropagation()}
             >
               <div className="modal-header">
-                <div id="settings-title" className="modal-title">
-                  Settings
+                <div id="load-sequence-title" className="modal-title">
+                  Load Session
                 </div>
                 <button
                   className="modal-close"
-                  onClick={() => setShowSettings(false)}
+                  onClick={() => setShowLoadModal(false)}
                 >
                   Close
                 </button>
               </div>
 
-              <div className="setting-row">
-                <input
-                  id="autocontinue"
-                  type="checkbox"
-                  checked={autocontinue}
-                  onChange={(e) => setAutocontinue(e.target.checked)}
-                />
-                <label htmlFor="autocontinue">Autocontinue</label>
-              </div>
-              <div className="setting-help">
-                When enabled, tasks automatically advance when their time runs
-                out.
-              </div>
-
-              <div className="setting-row">
-                <input
-                  id="rollover"
-                  type="checkbox"
-                  checked={rollover}
-                  onChange={(e) => setRollover(e.target.checked)}
-                />
-                <label htmlFor="rollover">Rollover</label>
-              </div>
-              <div className="setting-help">
-                Add remaining time from one task to the next within the same
-                round.
-              </div>
+              <div className="modal-body">
+                <div className="load-tabs" role="tablist">
+                  <button
+                    className={`load-tab ${
+                      loadTab === "saved" ? "is-active" : ""
+                    }`}
+                    role="tab"
+                    aria-selected={loadTab === "saved"}
+                    onClick={() => setLoadTab("saved")}
+                  >
+                    My sessions
+                  </button>
+                  <button
+                    className={`load-tab ${
+                      loadTab === "presets" ? "is-active" : ""
+                    }`}
+                    role="tab"
+                    aria-selected={loadTab === "presets"}
+                    onClick={() => {
+                      setLoadTab("presets");
+                      setOpenPresetId(null);
+                    }}
+                  >
+                    Presets
+                  </button>
+                </div>
+                {loadTab === "presets" ? (
+                  (() => {
+                    const preset = PRESETS.find((p) => p.id === openPresetId);
+                    if (!preset) {
+                      return (
+                        <ul className="saved-sequences-list">
+                          {PRESETS.map((p) => {
+                            const plan = p.build(presetDefaults(p));
+                            return (
+                              <li
+                                key={p.id}
+                                className="saved-sequence-item"
+                                onClick={() => openPreset(p)}
+                              >
+                                <div className="sequence-item-header">
+                                  <span className="sequence-name">
+                                    {p.name}
+                                  </span>
+                                </div>
+                                <div className="sequence-item-details">
+                                  <span>
+                                    {plan.roundsCount} round
+                                    {plan.roundsCount !== 1 ? "s" : ""}
+                                  </span>
+                                  <span>•</span>
+                                  <span>
+                                    {fmt(
+                                      sequenceTotalSec(plan) +
+                                        breaksTotalSec(
+                                          plan.breaks,
+                                          plan.roundsCount
+                                        )
+                                    )}{" "}
+                                    total
+                                  </span>
+                                </div>
+                                <div className="sequence-item-date">
+                                  {p.description}
+                                </div>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      );
+                    }
+                    const plan = preset.build(presetValues);
+                    const breakSec = breaksTotalSec(
+                      plan.breaks,
+                      plan.roundsCount
+                    );
+                    return (
+                      <div className="preset-detail">
+                        <button
+                          className="shortcut-reset"
+                          onClick={() => setOpenPresetId(null)}
+                        >
+                          ‹ All presets
+                        </button>
+                        <div className="sequence-name">{preset.name}</div>
+                        <div className="sequence-item-date">
+                          {preset.description}
+                        </div>
+                        <div className="preset-params">
+                          {preset.params.map((param) => (
+                            <label key={param.key} className="setting-row">
+                              <span className="preset-param-label">
+                                {param.label}
+                              </span>
+                              {param.kind === "duration" ? (
+                                <DurationInput
+                                  className="setting-number"
+                                  sec={presetValues[param.key]}
+                                  onChange={(sec) =>
+                                    setPresetValues({
+                                      ...presetValues,
+                                      [param.key]: clamp(
+                                        sec,
+                                        param.min,
+                                        param.max
+                                      ),
+                                    })
+                                  }
+                                />
+                              ) : (
+                                <input
+                                  className="setting-number"
+                                  type="number"
+                                  min={param.min}
+                                  max={param.max}
+                                  value={presetValues[param.key]}
+                                  onChange={(e) =>
+                                    setPresetValues({
+                                      ...presetValues,
+                                      [param.key]: clamp(
+                                        parseInt(e.target.value, 10) ||
+                                          param.min,
+                                        param.min,
+                                        param.max
+                                      ),
+                                    })
+                                  }
+                                />
+                              )}
+                            </label>
+                          ))}
+                        </div>
+                        <div className="sequence-tasks-label">Preview</div>
+                        <ul className="history-task-list">
+                          {plan.chain.map((id) => {
+                            const t = plan.tasks.find((x) => x.id === id)!;
+                            return (
+                              <li key={t.name} className="history-task-row">
+                                <span className="history-task-name">
+                                  {t.name}
+                                  {t.rounds && (
+                                    <span className="round-rule-badge">
+                                      {roundRuleLabel(t.rounds)}
+                                    </span>
+                                  )}
+                                </span>
+                                <span className="history-task-time">
+                                  {fmt(t.targetSec)}
+                                </span>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                        <div className="sequence-item-details">
+                          <span>
+                            {plan.roundsCount} round
+                            {plan.roundsCount !== 1 ? "s" : ""}
+                          </span>
+                          <span>•</span>
+                          <span>
+                            {fmt(sequenceTotalSec(plan) + breakSec)} total
+                          </span>
+                          {breakSec > 0 && (
+                            <>
+                              <span>•</span>
+                              <span>{fmt(breakSec)} of breaks</span>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })()
+                ) : savedSequences.length === 0 ? (
+                  <div className="empty-sequences">
+                    <p>No saved sessions yet.</p>
+                    <p>
+                      Save your current session to see it here, or start from
+                      one of the presets!
+                    </p>
+                  </div>
+                ) : (
+                  <ul className="saved-sequences-list">
+                    {savedSequences
+                      .sort((a, b) => b.savedAt - a.savedAt)
+                      .map((seq) => {
+                        const totalTime = sequenceTotalSec(
+                          expandBlocks(seq, savedSequences, [seq.id])
+                        );
+                        const blockCount = seq.tasks.filter((t) => t.block)
+                          .length;
+                        const taskCount = seq.tasks.length - blockCount;
+                        return (
+                          <li
+                            key={seq.id}
+                            className="saved-sequence-item"
+                            onClick={() => loadSequence(seq)}
+                          >
+                            <div className="sequence-item-header">
+                              <span className="sequence-name">{seq.name}</span>
+                              <div className="sequence-item-actions">
+                                <button
+                                  className="edit-sequence-btn"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    // Pre-populate the edit modal with this sequence's data
+                                    setEditingSequenceId(seq.id);
+                                    setSequenceName(seq.name);
 
-              <div className="setting-row">
-                <label style={{ fontWeight: 600 }}>
-                  Right arrow (›) action:
-                </label>
-              </div>
-              <div className="setting-row" style={{ paddingLeft: "20px" }}>
-                <input
-                  id="arrow-skip"
-                  type="radio"
-                  name="rightArrowAction"
-                  checked={rightArrowAction === "skip"}
-                  onChange={() => setRightArrowAction("skip")}
-                />
-                <label htmlFor="arrow-skip">Skip task</label>
-              </div>
-              <div className="setting-row" style={{ paddingLeft: "20px" }}>
-                <input
-                  id="arrow-done"
-                  type="radio"
-                  name="rightArrowAction"
-                  checked={rightArrowAction === "done"}
-                  onChange={() => setRightArrowAction("done")}
-                />
-                <label htmlFor="arrow-done">Mark as done</label>
-              </div>
-              <div className="setting-help">
-                Choose whether the right arrow skips the task or marks it
-                complete.
-              </div>
+                                    // Set up draft data
+                                    const draftMap: Record<
+                                      string,
+                                      DraftTask
+                                    > = {};
+                                    seq.tasks.forEach(
+                                      ({ id, ...draft }) =>
+                                        (draftMap[id] = draft)
+                                    );
+                                    setDraftById(draftMap);
+                                    setDraftChain(seq.chain);
+                                    setDraftRoundsCount(seq.roundsCount);
+                                    setDraftBreaks(seq.breaks);
+                                    setDraftOvertime(seq.overtime);
+                                    setEditingModalTask(null);
+                                    setDraftAsText(false);
 
-              <div className="modal-footer">
-                <button
-                  className="btn-save"
-                  onClick={() => setShowSettings(false)}
-                >
-                  Save
-                </button>
+                                    // Close load modal and open save modal
+                                    setShowLoadModal(false);
+                                    setShowSaveModal(true);
+                                  }}
+                                  title="Edit session"
+                                >
+                                  ✎
+                                </button>
+                                <button
+                                  className="edit-sequence-btn"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    copyShareLink(seq);
+                                  }}
+                                  title="Copy link"
+                                >
+                                  🔗
+                                </button>
+                                <button
+                                  className="edit-sequence-btn"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setQrSession(seq);
+                                  }}
+                                  title="Show QR code"
+                                >
+                                  ▦
+                                </button>
+                                <button
+                                  className="edit-sequence-btn"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    // Include the sessions it plays as blocks
+                                    exportSessions(
+                                      [
+                                        seq,
+                                        ...savedSequences.filter((s) =>
+                                          usesSession(seq, s.id, savedSequences)
+                                        ),
+                                      ],
+                                      `weasel-${fileSlug(seq.name)}.json`
+                                    );
+                                  }}
+                                  title="Export session"
+                                >
+                                  ⤓
+                                </button>
+                                <button
+                                  className="delete-sequence-btn"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    const parents = savedSequences
+                                      .filter(
+                                        (s) =>
+                                          s.id !== seq.id &&
+                                          usesSession(s, seq.id, savedSequences)
+                                      )
+                                      .map((s) => `"${s.name}"`);
+                                    const warning = parents.length
+                                      ? `\n\nIt plays as a block in ${parents.join(
+                                          ", "
+                                        )}, which will skip it from now on.`
+                                      : "";
+                                    if (
+                                      window.confirm(
+                                        `Delete "${seq.name}"? This cannot be undone.${warning}`
+                                      )
+                                    ) {
+                                      const updated = savedSequences.filter(
+                                        (s) => s.id !== seq.id
+                                      );
+                                      saveSequencesToStorage(updated);
+                                    }
+                                  }}
+                                  title="Delete session"
+                                >
+                                  ×
+                                </button>
+                              </div>
+                            </div>
+                            <div className="sequence-item-details">
+                              <span>
+                                {taskCount} task
+                                {taskCount !== 1 ? "s" : ""}
+                                {blockCount > 0 &&
+                                  ` + ${blockCount} block${
+                                    blockCount !== 1 ? "s" : ""
+                                  }`}
+                              </span>
+                              <span>•</span>
+                              <span>
+                                {seq.roundsCount} round
+                                {seq.roundsCount !== 1 ? "s" : ""}
+                              </span>
+                              <span>•</span>
+                              <span>{fmt(totalTime)} total</span>
+                            </div>
+                            <div className="sequence-item-date">
+                              Saved {new Date(seq.savedAt).toLocaleDateString()}
+                            </div>
+                          </li>
+                        );
+                      })}
+                  </ul>
+                )}
               </div>
+
+              {loadTab === "presets" && openPresetId ? (
+                <div className="modal-footer">
+                  <button
+                    className="btn-cancel"
+                    onClick={() => {
+                      const preset = PRESETS.find((p) => p.id === openPresetId);
+                      if (preset) clonePreset(preset);
+                    }}
+                  >
+                    Save to my sessions
+                  </button>
+                  <button
+                    className="btn-save"
+                    onClick={() => {
+                      const preset = PRESETS.find((p) => p.id === openPresetId);
+                      if (!preset) return;
+                      loadSequence({
+                        name: preset.name,
+                        ...preset.build(presetValues),
+                      });
+                    }}
+                  >
+                    Load
+                  </button>
+                </div>
+              ) : (
+                <div className="modal-footer">
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    style={{ display: "none" }}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImportFile(file);
+                      e.target.value = "";
+                    }}
+                  />
+                  <button
+                    className="btn-cancel"
+                    onClick={() => importInputRef.current?.click()}
+                  >
+                    Import
+                  </button>
+                  <button
+                    className="btn-save"
+                    disabled={savedSequences.length === 0}
+                    onClick={() =>
+                      exportSessions(
+                        savedSequences,
+                        `weasel-sessions-${new Date()
+                          .toISOString()
+                          .slice(0, 10)}.json`
+                      )
+                    }
+                  >
+                    Export all
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         )}
 
-        {showSaveModal && (
+        {qrSession && qrShare && (
           <div
             className="modal-backdrop"
             onClick={(e) => {
-              if (e.target === e.currentTarget) setShowSaveModal(false);
+              if (e.target === e.currentTarget) setQrSession(null);
             }}
           >
             <div
-              className="modal modal-large"
+              className="modal confirm-modal"
               role="dialog"
               aria-modal="true"
-              aria-labelledby="save-sequence-title"
+              aria-labelledby="qr-title"
               onClick={(e) => e.stopPropagation()}
             >
               <div className="modal-header">
-                <div id="save-sequence-title" className="modal-title">
-                  {editingSequenceId ? "Edit Session" : "Save Session"}
-                </div>
+                <h2 id="qr-title" className="modal-title">
+                  {qrSession.name}
+                </h2>
                 <button
                   className="modal-close"
-                  onClick={() => {
-                    setShowSaveModal(false);
-                    setEditingSequenceId(null);
-                  }}
+                  onClick={() => setQrSession(null)}
                 >
                   Close
                 </button>
               </div>
-
               <div className="modal-body">
-                <div className="sequence-name-input">
-                  <label htmlFor="sequence-name">Session Name</label>
+                {qrShare.symbol ? (
+                  <>
+                    <QrCode
+                      symbol={qrShare.symbol}
+                      title={`QR code for ${qrSession.name}`}
+                    />
+                    <div className="setting-help qr-caption">
+                      Scan with a phone camera to open this session there.
+                      Version {qrShare.symbol.version}, error correction{" "}
+                      {QR_LEVEL_LABELS[qrShare.symbol.level]}.
+                    </div>
+                  </>
+                ) : (
+                  <p className="modal-message qr-error">
+                    This session is too big for a QR code. {qrShare.error}{" "}
+                    Copy the link instead, or shorten its notes and checklists.
+                  </p>
+                )}
+                <div className="setting-row">
                   <input
-                    id="sequence-name"
+                    className="qr-link"
                     type="text"
-                    value={sequenceName}
-                    onChange={(e) => setSequenceName(e.target.value)}
-                    placeholder="Enter session name..."
+                    readOnly
+                    value={qrShare.url}
+                    onFocus={(e) => e.currentTarget.select()}
+                    aria-label="Share link"
                   />
+                  <button
+                    className="btn-save"
+                    onClick={() => copyShareLink(qrSession)}
+                  >
+                    Copy link
+                  </button>
                 </div>
+              </div>
+            </div>
+          </div>
+        )}
 
-                <div className="sequence-tasks-section">
-                  <div className="sequence-tasks-label">Tasks in Sequence</div>
-                  <ul className="sequence-task-list">
-                    {draftChain.map((id, i) => {
-                      const t = draftById[id];
-                      if (!t) return null;
-                      const isEditingName =
-                        editingModalTask?.id === id &&
-                        editingModalTask?.field === "name";
-                      const isEditingTime =
-                        editingModalTask?.id === id &&
-                        editingModalTask?.field === "time";
-
-                      return (
-                        <li
-                          key={id}
-                          className="sequence-task-row"
-                          draggable={!editingModalTask}
-                          onDragStart={onDragStartModalTask(i)}
-                          onDragOver={onDragOverModalTask(i)}
-                          onDrop={onDropModalTask(i)}
-                          onDragEnd={onDragEndModalTask}
-                        >
-                          <span className="drag-handle" aria-hidden>
-                            ⋮⋮
-                          </span>
-
-                          {isEditingName ? (
-                            <input
-                              className="task-name-edit"
-                              type="text"
-                              value={t.name}
-                              autoFocus
-                              onChange={(e) =>
-                                updateDraftTask(id, e.target.value, t.targetSec)
-                              }
-                              onBlur={() => setEditingModalTask(null)}
-                              onKeyDown={(e) => {
-                                if (e.key === "Enter" || e.key === "Escape") {
-                                  setEditingModalTask(null);
-                                }
-                              }}
-                            />
-                          ) : (
-                            <span
-                              className="task-name-display"
-                              onClick={() =>
-                                setEditingModalTask({ id, field: "name" })
-                              }
-                            >
-                              {t.name}
-                            </span>
-                          )}
-
-                          {isEditingTime ? (
-                            <input
-                              className="task-time-edit"
-                              type="text"
-                              value={fmt(t.targetSec)}
-                              autoFocus
-                              onChange={(e) => {
-                                const newSec = parseTime(e.target.value);
-                                updateDraftTask(id, t.name, newSec);
-                              }}
-                              onBlur={() => setEditingModalTask(null)}
-                              onKeyDown={(e) => {
-                                if (e.key === "Enter" || e.key === "Escape") {
-                                  setEditingModalTask(null);
-                                }
-                              }}
-                            />
-                          ) : (
-                            <span
-                              className="task-time-display"
-                              onClick={() =>
-                                setEditingModalTask({ id, field: "time" })
-                              }
-                            >
-                              {fmt(t.targetSec)}
-                            </span>
-                          )}
-                        </li>
-                      );
-                    })}
-                  </ul>
-                  <div className="modal-task-actions">
-                    <button
-                      className="add-task-modal-btn"
-                      onClick={addDraftTask}
-                    >
-                      <span className="btn-icon">+</span>
-                      add task
-                    </button>
-                    <div className="modal-rounds-control">
-                      <span className="modal-rounds-label">Rounds:</span>
+        {sharedSessions && !pendingSession && (
+          <div
+            className="modal-backdrop"
+            onClick={(e) => {
+              if (e.target === e.currentTarget) setSharedSessions(null);
+            }}
+          >
+            <div
+              className="modal confirm-modal"
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="shared-title"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {(() => {
+                const [shared, ...blocks] = sharedSessions;
+                const plan = expandBlocks(shared, [
+                  ...blocks,
+                  ...savedSequences,
+                ]);
+                const breakSec = breaksTotalSec(
+                  plan.breaks,
+                  plan.roundsCount
+                );
+                return (
+                  <>
+                    <div className="modal-header">
+                      <h2 id="shared-title" className="modal-title">
+                        {shared.name}
+                      </h2>
+                    </div>
+                    <div className="modal-body">
+                      <p className="modal-message">
+                        Someone shared this session with you.
+                      </p>
+                      <ul className="history-task-list">
+                        {shared.chain.map((id) => {
+                          const t = shared.tasks.find((x) => x.id === id)!;
+                          const block = t.block
+                            ? [...blocks, ...savedSequences].find(
+                                (s) => s.id === t.block
+                              )
+                            : undefined;
+                          return (
+                            <li key={id} className="history-task-row">
+                              <span className="history-task-name">
+                                {t.block
+                                  ? `▣ ${block?.name ?? t.name}`
+                                  : t.name}
+                                {t.rounds && (
+                                  <span className="round-rule-badge">
+                                    {roundRuleLabel(t.rounds)}
+                                  </span>
+                                )}
+                              </span>
+                              <span className="history-task-time">
+                                {block
+                                  ? fmt(
+                                      sequenceTotalSec(
+                                        expandBlocks(block, [
+                                          ...blocks,
+                                          ...savedSequences,
+                                        ])
+                                      )
+                                    )
+                                  : t.block
+                                  ? "missing"
+                                  : fmtTarget(t)}
+                              </span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                      <div className="sequence-item-details">
+                        <span>
+                          {plan.roundsCount} round
+                          {plan.roundsCount !== 1 ? "s" : ""}
+                        </span>
+                        <span>•</span>
+                        <span>
+                          {fmt(sequenceTotalSec(plan) + breakSec)} total
+                        </span>
+                        {breakSec > 0 && (
+                          <>
+                            <span>•</span>
+                            <span>{fmt(breakSec)} of breaks</span>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    <div className="modal-footer">
                       <button
-                        className="modal-stepper-btn"
-                        onClick={() =>
-                          setDraftRoundsCount(Math.max(1, draftRoundsCount - 1))
-                        }
-                        disabled={draftRoundsCount <= 1}
+                        className="btn-cancel"
+                        onClick={() => setSharedSessions(null)}
                       >
-                        −
+                        Cancel
                       </button>
-                      <span className="modal-rounds-value">
-                        {draftRoundsCount}
-                      </span>
                       <button
-                        className="modal-stepper-btn"
-                        onClick={() =>
-                          setDraftRoundsCount(
-                            Math.min(99, draftRoundsCount + 1)
-                          )
-                        }
-                        disabled={draftRoundsCount >= 99}
+                        className="btn-cancel"
+                        onClick={saveSharedSession}
                       >
-                        +
+                        Save to library
+                      </button>
+                      <button className="btn-save" onClick={runSharedSession}>
+                        Run now
                       </button>
                     </div>
-                  </div>
-                </div>
+                  </>
+                );
+              })()}
+            </div>
+          </div>
+        )}
 
-                <div className="sequence-time-summary">
-                  <span className="time-summary-label">
-                    Round time:{" "}
-                    <strong>{fmt(calculateDraftRoundTime())}</strong>
-                  </span>
-                  <span className="time-summary-separator">|</span>
-                  <span className="time-summary-label">
-                    Total time:{" "}
-                    <strong>{fmt(calculateDraftTotalTime())}</strong>
-                  </span>
-                </div>
+        {pendingImport && (
+          <div
+            className="modal-backdrop"
+            onClick={(e) => {
+              if (e.target === e.currentTarget) setPendingImport(null);
+            }}
+          >
+            <div
+              className="modal confirm-modal"
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="import-title"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="modal-header">
+                <h2 id="import-title" className="modal-title">
+                  Import {pendingImport.length} session
+                  {pendingImport.length !== 1 ? "s" : ""}?
+                </h2>
               </div>
+              <div className="modal-body">
+                <p className="modal-message">
+                  Merge adds them to your library. Replace removes your current
+                  saved sessions first.
+                </p>
+              </div>
+              <div className="modal-footer">
+                <button
+                  className="btn-cancel"
+                  onClick={() => setPendingImport(null)}
+                >
+                  Cancel
+                </button>
+                <button
+                  className="btn-confirm-delete"
+                  onClick={() => applyImport("replace")}
+                >
+                  Replace
+                </button>
+                <button
+                  className="btn-save"
+                  onClick={() => applyImport("merge")}
+                >
+                  Merge
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
 
-              <div className="modal-footer">
-                <button
-                  className="btn btn-cancel"
-                  onClick={() => {
-                    setShowSaveModal(false);
-                    setSequenceName("");
-                    setEditingSequenceId(null);
-                  }}
-                >
-                  Cancel
-                </button>
-                <button
-                  className="btn btn-save"
-                  onClick={() => {
-                    if (!sequenceName.trim()) {
-                      alert("Please enter a session name");
-                      return;
-                    }
-
-                    // 1. Create any new tasks that don't exist yet
-                    const existingTaskIds = new Set(tasks.map((t) => t.id));
-                    const newTasks: Task[] = [];
-                    draftChain.forEach((id) => {
-                      if (!existingTaskIds.has(id) && draftById[id]) {
-                        newTasks.push({
-                          id,
-                          name: draftById[id].name,
-                          targetSec: draftById[id].targetSec,
-                        });
-                      }
-                    });
-                    if (newTasks.length > 0) {
-                      setTasks((prev) => [...prev, ...newTasks]);
-                    }
-
-                    // 2. Update the chain
-                    setChain(draftChain);
-
-                    // 3. Sync rounds array to match new chain length
-                    setRounds((prev) => {
-                      const newChainLength = draftChain.length;
-                      return prev.map((round) => {
-                        if (round.length === newChainLength) return round;
-                        if (round.length < newChainLength) {
-                          // Add new incomplete results for new tasks
-                          const toAdd = newChainLength - round.length;
-                          return [
-                            ...round,
-                            ...Array(toAdd).fill({
-                              status: "incomplete" as TaskStatus,
-                              actualSec: null,
-                            }),
-                          ];
-                        } else {
-                          // Remove results if chain got shorter (shouldn't happen with add, but for safety)
-                          return round.slice(0, newChainLength);
-                        }
-                      });
-                    });
-
-                    // 4. Update existing tasks that changed
-                    draftChain.forEach((id) => {
-                      const d = draftById[id];
-                      if (!d) return;
-                      const orig = tasks.find((t) => t.id === id);
-                      if (
-                        orig &&
-                        (orig.name !== d.name || orig.targetSec !== d.targetSec)
-                      ) {
-                        handleUpdateTask(id, d.name, d.targetSec);
-                      }
-                    });
-
-                    // 5. Apply rounds count change
-                    if (draftRoundsCount !== roundsCount) {
-                      changeRounds(draftRoundsCount);
-                    }
-
-                    // 6. Save or update sequence in localStorage
-                    if (editingSequenceId) {
-                      // Update existing sequence
-                      const updatedSequences = savedSequences.map((seq) =>
-                        seq.id === editingSequenceId
-                          ? {
-                              ...seq,
-                              name: sequenceName.trim(),
-                              tasks: draftChain.map((id) => {
-                                const d = draftById[id];
-                                return {
-                                  id,
-                                  name: d.name,
-                                  targetSec: d.targetSec,
-                                };
-                              }),
-                              chain: draftChain,
-                              roundsCount: draftRoundsCount,
-                              savedAt: Date.now(),
-                            }
-                          : seq
-                      );
-                      saveSequencesToStorage(updatedSequences);
-                    } else {
-                      // Create new sequence
-                      const newSequence: SavedSequence = {
-                        id: `seq-${Date.now()}`,
-                        name: sequenceName.trim(),
-                        tasks: draftChain.map((id) => {
-                          const d = draftById[id];
-                          return { id, name: d.name, targetSec: d.targetSec };
-                        }),
-                        chain: draftChain,
-                        roundsCount: draftRoundsCount,
-                        savedAt: Date.now(),
-                      };
-                      const updatedSequences = [...savedSequences, newSequence];
-                      saveSequencesToStorage(updatedSequences);
-                    }
-
-                    // 7. Show saved alert
-                    setShowSavedAlert(true);
-                    setTimeout(() => setShowSavedAlert(false), 2000);
-
-                    setShowSaveModal(false);
-                    setSequenceName("");
-                    setEditingSequenceId(null);
-                  }}
+        {showConfirmModal && (
+          <div
+            className="modal-backdrop"
+            onClick={(e) => {
+              if (e.target === e.currentTarget) setShowConfirmModal(false);
+            }}
+          >
+            <div
+              className="modal confirm-modal"
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="confirm-clear-title"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="modal-header">
+                <h2 id="confirm-clear-title" className="modal-title">
+                  Clear Session?
+                </h2>
+              </div>
+              <div className="modal-body">
+                <p className="modal-message">
+                  This will remove all tasks and reset your session.
+                </p>
+              </div>
+              <div className="modal-footer">
+                <button
+                  className="btn-cancel"
+                  onClick={() => setShowConfirmModal(false)}
                 >
-                  Save and Load
+                  Back
+                </button>
+                <button
+                  className="btn-confirm-delete"
+                  onClick={handleConfirmClearAll}
+                >
+                  Confirm
                 </button>
               </div>
             </div>
           </div>
         )}
 
-        {showLoadModal && (
+        {showHistoryModal && (
           <div
             className="modal-backdrop"
             onClick={(e) => {
-              if (e.target === e.currentTarget) setShowLoadModal(false);
+              if (e.target === e.currentTarget) setShowHistoryModal(false);
             }}
           >
             <div
               className="modal modal-large"
               role="dialog"
               aria-modal="true"
-              aria-labelledby="load-sequence-title"
+              aria-labelledby="history-title"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {(() => {
+                const open = sessionHistory.find(
+                  (h) => h.id === openHistoryId
+                );
+                if (open) {
+                  return (
+                    <>
+                      <div className="modal-header">
+                        <div id="history-title" className="modal-title">
+                          {open.name}
+                        </div>
+                        <button
+                          className="modal-close"
+                          onClick={() => setOpenHistoryId(null)}
+                        >
+                          Back
+                        </button>
+                      </div>
+                      <div className="modal-body">
+                        <div className="sequence-item-details">
+                          <span>
+                            {open.completed ? "Completed" : "Abandoned"}
+                          </span>
+                          <span>•</span>
+                          <span>{fmt(recordActualSec(open))} spent</span>
+                        </div>
+                        <div className="sequence-item-date">
+                          {new Date(open.startedAt).toLocaleString()} –{" "}
+                          {new Date(open.endedAt).toLocaleTimeString()}
+                          {" · "}Rollover{" "}
+                          {open.settings.rolloverMode
+                            ? ROLLOVER_MODE_LABELS[
+                                open.settings.rolloverMode
+                              ].toLowerCase()
+                            : open.settings.rollover
+                            ? "on"
+                            : "off"}
+                          {" · "}Autocontinue{" "}
+                          {open.settings.autocontinue ? "on" : "off"}
+                          {open.settings.overtime &&
+                            open.settings.overtime.mode !== "count" &&
+                            ` · Overtime: ${OVERTIME_MODE_LABELS[
+                              open.settings.overtime.mode
+                            ].toLowerCase()}`}
+                        </div>
+                        <div className="history-export-actions">
+                          <button
+                            className="btn-cancel"
+                            onClick={() =>
+                              exportResultsCsv(open.name, open.tasks, open.rounds)
+                            }
+                          >
+                            Export CSV
+                          </button>
+                          <button
+                            className="btn-cancel"
+                            onClick={() =>
+                              copyResultsMarkdown(
+                                open.name,
+                                open.tasks,
+                                open.rounds
+                              )
+                            }
+                          >
+                            Copy Markdown
+                          </button>
+                        </div>
+                        {open.rounds.map((row, rIdx) => (
+                          <div key={rIdx} className="history-round">
+                            <div className="sequence-tasks-label">
+                              Round {rIdx + 1}
+                            </div>
+                            <ul className="history-task-list">
+                              {row.map((res, i) => {
+                                const t = open.tasks[i];
+                                if (
+                                  !t ||
+                                  !taskInRound(t, rIdx, open.rounds.length)
+                                )
+                                  return null;
+                                return (
+                                  <li key={i} className="history-task-row">
+                                    <span
+                                      className={`mini-dot mdot-${resultLightColor(
+                                        res
+                                      )}`}
+                                    />
+                                    <span className="history-task-name">
+                                      {t.name}
+                                    </span>
+                                    <span className="history-task-time">
+                                      {res.reps !== undefined
+                                        ? `${res.reps} · `
+                                        : ""}
+                                      {res.actualSec === null
+                                        ? "–"
+                                        : fmt(res.actualSec)}{" "}
+                                      / {fmtTarget(t)}
+                                    </span>
+                                    <span className="history-task-status">
+                                      {STATUS_LABELS[res.status]}
+                                      {t.checklist?.length
+                                        ? ` · ${checklistTally(t, res)} ✓`
+                                        : ""}
+                                      {overtimeNote(res)
+                                        ? ` · ${overtimeNote(res)}`
+                                        : ""}
+                                    </span>
+                                  </li>
+                                );
+                              })}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  );
+                }
+                return (
+                  <>
+                    <div className="modal-header">
+                      <div id="history-title" className="modal-title">
+                        History
+                      </div>
+                      <button
+                        className="modal-close"
+                        onClick={() => setShowHistoryModal(false)}
+                      >
+                        Close
+                      </button>
+                    </div>
+                    <div className="modal-body">
+                      {sessionHistory.length === 0 ? (
+                        <div className="empty-sequences">
+                          <p>No sessions recorded yet.</p>
+                          <p>Finished and abandoned runs will show up here.</p>
+                        </div>
+                      ) : (
+                        <ul className="saved-sequences-list">
+                          {sessionHistory.map((record) => (
+                            <li
+                              key={record.id}
+                              className="saved-sequence-item"
+                              onClick={() => setOpenHistoryId(record.id)}
+                            >
+                              <div className="sequence-item-header">
+                                <span className="sequence-name">
+                                  {record.name}
+                                </span>
+                                <div className="sequence-item-actions">
+                                  <button
+                                    className="delete-sequence-btn"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      if (
+                                        window.confirm(
+                                          `Delete this run of "${record.name}"? This cannot be undone.`
+                                        )
+                                      ) {
+                                        saveHistoryToStorage(
+                                          sessionHistory.filter(
+                                            (h) => h.id !== record.id
+                                          )
+                                        );
+                                      }
+                                    }}
+                                    title="Delete run"
+                                  >
+                                    ×
+                                  </button>
+                                </div>
+                              </div>
+                              <div className="sequence-item-details">
+                                <span>
+                                  {record.completed ? "Completed" : "Abandoned"}
+                                </span>
+                                <span>•</span>
+                                <span>
+                                  {record.rounds.length} round
+                                  {record.rounds.length !== 1 ? "s" : ""}
+                                </span>
+                                <span>•</span>
+                                <span>{fmt(recordActualSec(record))} spent</span>
+                              </div>
+                              <div className="sequence-item-date">
+                                {new Date(record.startedAt).toLocaleString()}
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </>
+                );
+              })()}
+            </div>
+          </div>
+        )}
+
+        {showStatsModal && stats && (
+          <div
+            className="modal-backdrop"
+            onClick={(e) => {
+              if (e.target === e.currentTarget) setShowStatsModal(false);
+            }}
+          >
+            <div
+              className="modal modal-large"
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="stats-title"
               onClick={(e) => e.stopPropagation()}
             >
               <div className="modal-header">
-                <div id="load-sequence-title" className="modal-title">
-                  Load Session
+                <div id="stats-title" className="modal-title">
+                  Statistics
                 </div>
                 <button
                   className="modal-close"
-                  onClick={() => setShowLoadModal(false)}
+                  onClick={() => setShowStatsModal(false)}
                 >
                   Close
                 </button>
               </div>
 
               <div className="modal-body">
-                {savedSequences.length === 0 ? (
+                {sessionHistory.length === 0 ? (
                   <div className="empty-sequences">
-                    <p>No saved sessions yet.</p>
-                    <p>Save your current session to see it here!</p>
+                    <p>No sessions recorded yet.</p>
+                    <p>Run a session and your stats will show up here.</p>
                   </div>
                 ) : (
-                  <ul className="saved-sequences-list">
-                    {savedSequences
-                      .sort((a, b) => b.savedAt - a.savedAt)
-                      .map((seq) => {
-                        const totalTime =
-                          seq.tasks.reduce((sum, t) => sum + t.targetSec, 0) *
-                          seq.roundsCount;
-                        return (
-                          <li
-                            key={seq.id}
-                            className="saved-sequence-item"
-                            onClick={() => {
-                              // Load the sequence
-                              const existingTaskIds = new Set(
-                                tasks.map((t) => t.id)
-                              );
-                              const newTasks: Task[] = [];
-                              seq.tasks.forEach((task) => {
-                                if (!existingTaskIds.has(task.id)) {
-                                  newTasks.push(task);
-                                }
-                              });
-
-                              if (newTasks.length > 0) {
-                                setTasks((prev) => [...prev, ...newTasks]);
-                              }
+                  <>
+                    <div className="stats-summary">
+                      <div className="stats-summary-item">
+                        <strong>{fmt(stats.totalSec)}</strong>
+                        <span>focused</span>
+                      </div>
+                      <div className="stats-summary-item">
+                        <strong>{stats.completedSessions}</strong>
+                        <span>completed</span>
+                      </div>
+                      <div className="stats-summary-item">
+                        <strong>{stats.longestStreak}d</strong>
+                        <span>best streak</span>
+                      </div>
+                      <div className="stats-summary-item">
+                        <strong>{stats.currentStreak}d</strong>
+                        <span>current</span>
+                      </div>
+                    </div>
 
-                              // Update existing tasks
-                              seq.tasks.forEach((task) => {
-                                const existing = tasks.find(
-                                  (t) => t.id === task.id
-                                );
-                                if (
-                                  existing &&
-                                  (existing.name !== task.name ||
-                                    existing.targetSec !== task.targetSec)
-                                ) {
-                                  handleUpdateTask(
-                                    task.id,
-                                    task.name,
-                                    task.targetSec
-                                  );
+                    <div className="sequence-tasks-label">Last 14 days</div>
+                    <BarChart bars={stats.daily} />
+                    <div className="sequence-tasks-label">Last 8 weeks</div>
+                    <BarChart bars={stats.weekly} />
+
+                    {stats.perCategory.length > 0 && (
+                      <>
+                        <div className="sequence-tasks-label">Categories</div>
+                        <ul className="history-task-list">
+                          {stats.perCategory.map((c) => (
+                            <li key={c.category} className="history-task-row">
+                              <span
+                                className="mini-dot task-colored"
+                                style={
+                                  c.color
+                                    ? ({ "--task-color": c.color } as any)
+                                    : undefined
                                 }
-                              });
-
-                              setChain(seq.chain);
-                              changeRounds(seq.roundsCount);
-
-                              // Reset the session
-                              restartSession();
-
-                              setShowLoadModal(false);
-                              playNav();
-                            }}
-                          >
-                            <div className="sequence-item-header">
-                              <span className="sequence-name">{seq.name}</span>
-                              <div className="sequence-item-actions">
-                                <button
-                                  className="edit-sequence-btn"
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    // Pre-populate the edit modal with this sequence's data
-                                    setEditingSequenceId(seq.id);
-                                    setSequenceName(seq.name);
-
-                                    // Set up draft data
-                                    const draftMap: Record<
-                                      string,
-                                      { name: string; targetSec: number }
-                                    > = {};
-                                    seq.tasks.forEach((task) => {
-                                      draftMap[task.id] = {
-                                        name: task.name,
-                                        targetSec: task.targetSec,
-                                      };
-                                    });
-                                    setDraftById(draftMap);
-                                    setDraftChain(seq.chain);
-                                    setDraftRoundsCount(seq.roundsCount);
-
-                                    // Close load modal and open save modal
-                                    setShowLoadModal(false);
-                                    setShowSaveModal(true);
-                                  }}
-                                  title="Edit session"
-                                >
-                                  ✎
-                                </button>
-                                <button
-                                  className="delete-sequence-btn"
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    if (
-                                      window.confirm(
-                                        `Delete "${seq.name}"? This cannot be undone.`
-                                      )
-                                    ) {
-                                      const updated = savedSequences.filter(
-                                        (s) => s.id !== seq.id
-                                      );
-                                      saveSequencesToStorage(updated);
-                                    }
-                                  }}
-                                  title="Delete session"
-                                >
-                                  ×
-                                </button>
-                              </div>
-                            </div>
-                            <div className="sequence-item-details">
-                              <span>
-                                {seq.tasks.length} task
-                                {seq.tasks.length !== 1 ? "s" : ""}
+                              />
+                              <span className="history-task-name">
+                                {c.category}
+                                <span className="stats-task-outcomes">
+                                  {c.runs} {c.runs === 1 ? "task" : "tasks"}
+                                </span>
                               </span>
-                              <span>•</span>
-                              <span>
-                                {seq.roundsCount} round
-                                {seq.roundsCount !== 1 ? "s" : ""}
+                              <span className="history-task-time">
+                                {fmt(c.actualSec)} ·{" "}
+                                {Math.round(
+                                  (c.actualSec / Math.max(1, stats.totalSec)) *
+                                    100
+                                )}
+                                %
                               </span>
-                              <span>•</span>
-                              <span>{fmt(totalTime)} total</span>
-                            </div>
-                            <div className="sequence-item-date">
-                              Saved {new Date(seq.savedAt).toLocaleDateString()}
-                            </div>
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+
+                    <div className="sequence-tasks-label">Tasks</div>
+                    <ul className="history-task-list">
+                      {stats.perTask.map((t) => {
+                        const counts = [t.under, t.at, t.over, t.skipped];
+                        const shown = counts
+                          .map((count, k) => ({ count, k }))
+                          .filter(({ count }) => count > 0);
+                        return (
+                          <li key={t.name} className="history-task-row">
+                            <PieChart
+                              segments={shown.length}
+                              currentIndex={shown.length - 1}
+                              size={26}
+                              getSegmentColor={(i) =>
+                                OUTCOME_COLORS[shown[i].k]
+                              }
+                              segmentValues={shown.map(({ count }) => count)}
+                            />
+                            <span className="history-task-name">
+                              {t.name}
+                              <span className="stats-task-outcomes">
+                                {shown
+                                  .map(
+                                    ({ count, k }) =>
+                                      `${count} ${OUTCOME_LABELS[k]}`
+                                  )
+                                  .join(" · ")}
+                              </span>
+                            </span>
+                            <span
+                              className="history-task-time"
+                              title="Average actual / average target"
+                            >
+                              {t.runs
+                                ? `${fmt(t.avgActualSec)} / ${fmt(
+                                    t.avgTargetSec
+                                  )}`
+                                : "–"}
+                            </span>
                           </li>
                         );
                       })}
-                  </ul>
+                    </ul>
+                  </>
                 )}
               </div>
             </div>
           </div>
         )}
 
-        {showConfirmModal && (
+        {showShortcutHelp && (
           <div
             className="modal-backdrop"
             onClick={(e) => {
-              if (e.target === e.currentTarget) setShowConfirmModal(false);
+              if (e.target === e.currentTarget) setShowShortcutHelp(false);
             }}
           >
             <div
               className="modal confirm-modal"
               role="dialog"
               aria-modal="true"
-              aria-labelledby="confirm-clear-title"
+              aria-labelledby="shortcut-help-title"
               onClick={(e) => e.stopPropagation()}
             >
               <div className="modal-header">
-                <h2 id="confirm-clear-title" className="modal-title">
-                  Clear Session?
+                <div id="shortcut-help-title" className="modal-title">
+                  Shortcuts
+                </div>
+                <button
+                  className="modal-close"
+                  onClick={() => setShowShortcutHelp(false)}
+                >
+                  Close
+                </button>
+              </div>
+              <ul className="shortcut-list">
+                {SHORTCUT_ACTIONS.filter(({ action }) => keymap[action]).map(
+                  ({ action, label }) => (
+                    <li key={action} className="shortcut-row">
+                      <span className="shortcut-label">{label}</span>
+                      <kbd className="shortcut-key">
+                        {keyLabel(keymap[action])}
+                      </kbd>
+                    </li>
+                  )
+                )}
+                <li className="shortcut-row">
+                  <span className="shortcut-label">Undo</span>
+                  <kbd className="shortcut-key">Ctrl+Z</kbd>
+                </li>
+                <li className="shortcut-row">
+                  <span className="shortcut-label">Redo</span>
+                  <kbd className="shortcut-key">Ctrl+Shift+Z</kbd>
+                </li>
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {pendingSession && (
+          <div className="modal-backdrop">
+            <div
+              className="modal confirm-modal"
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="resume-session-title"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="modal-header">
+                <h2 id="resume-session-title" className="modal-title">
+                  Resume Session?
                 </h2>
               </div>
               <div className="modal-body">
                 <p className="modal-message">
-                  This will remove all tasks and reset your session.
+                  {pendingSession.isSessionComplete
+                    ? "Your last session was finished"
+                    : `Your last session stopped at round ${
+                        pendingSession.currentRoundIndex + 1
+                      } of ${pendingSession.roundsCount}`}{" "}
+                  on {new Date(pendingSession.savedAt).toLocaleString()}.
                 </p>
               </div>
               <div className="modal-footer">
                 <button
                   className="btn-cancel"
-                  onClick={() => setShowConfirmModal(false)}
+                  onClick={() => resolvePendingSession(false)}
                 >
-                  Back
+                  Discard
                 </button>
                 <button
-                  className="btn-confirm-delete"
-                  onClick={handleConfirmClearAll}
+                  className="btn-save"
+                  onClick={() => resolvePendingSession(true)}
                 >
-                  Confirm
+                  Resume
                 </button>
               </div>
             </div>
@@ -2397,10 +9127,25 @@ export default function App() {
                 </button>
                 <button
                   className="saveload-pill"
-                  onClick={() => setShowLoadModal(true)}
+                  onClick={openLoadModal}
                 >
                   load session
                 </button>
+                <button
+                  className="saveload-pill"
+                  onClick={() => {
+                    setOpenHistoryId(null);
+                    setShowHistoryModal(true);
+                  }}
+                >
+                  history
+                </button>
+                <button
+                  className="saveload-pill"
+                  onClick={() => setShowStatsModal(true)}
+                >
+                  stats
+                </button>
               </div>
               <div className="saveload-icon">
                 {/* Pixel art sequence icon - 3 stacked boxes */}
@@ -2426,7 +9171,18 @@ export default function App() {
       {showSavedAlert && (
         <div className="saved-alert">
           <span className="saved-icon">✓</span>
-          Session saved!
+          {savedAlertText}
+        </div>
+      )}
+      {undoToast && (
+        <div className="undo-toast" role="status" aria-live="polite">
+          <span>{undoToast.text}</span>
+          <button
+            className="undo-toast-link"
+            onClick={undoToast.action === "undo" ? undo : redo}
+          >
+            {undoToast.action === "undo" ? "Undo" : "Redo"}
+          </button>
         </div>
       )}
     </>